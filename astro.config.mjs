@@ -1,38 +1,120 @@
 // @ts-check
-import { defineConfig } from 'astro/config';
+import { defineConfig, envField } from 'astro/config';
 
 import react from '@astrojs/react';
 import mdx from '@astrojs/mdx';
 import tailwind from '@astrojs/tailwind';
 import sitemap from '@astrojs/sitemap';
+import node from '@astrojs/node';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import remarkEquations from './src/plugins/remarkEquations';
+import transformerCodeBlocks from './src/plugins/shikiCodeBlocks';
+import contentLint from './src/plugins/contentLint';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_INFO } from './src/config/i18n';
+import {
+  transformerMetaHighlight,
+  transformerNotationDiff,
+  transformerNotationHighlight,
+} from '@shikijs/transformers';
 
 // https://astro.build/config
 export default defineConfig({
   site: 'https://example.com', // TODO: Update with your actual domain
+  // Pages are prerendered; routes with `prerender = false` (contact and newsletter endpoints) run on a Node server
+  adapter: node({ mode: 'standalone' }),
+  security: {
+    // Checked in src/middleware.ts instead, which lets mail providers POST one-click unsubscribes
+    checkOrigin: false,
+    // Hosts the server answers as; form posts are only accepted from these origins
+    allowedDomains: [
+      { hostname: 'example.com' }, // TODO: Update with your actual domain
+      { hostname: 'localhost' }, // npm run preview
+    ],
+  },
+  // Server-only settings for sending mail and storing newsletter subscribers,
+  // read from the environment or .env at runtime
+  env: {
+    schema: {
+      MAIL_TRANSPORT: envField.enum({
+        context: 'server',
+        access: 'secret',
+        values: ['smtp', 'webhook', 'file', 'console'],
+        optional: true,
+      }),
+      MAIL_FROM: envField.string({ context: 'server', access: 'secret', optional: true }),
+      CONTACT_TO: envField.string({ context: 'server', access: 'secret', optional: true }),
+      SMTP_HOST: envField.string({ context: 'server', access: 'secret', optional: true }),
+      SMTP_PORT: envField.number({ context: 'server', access: 'secret', default: 587 }),
+      SMTP_USER: envField.string({ context: 'server', access: 'secret', optional: true }),
+      SMTP_PASSWORD: envField.string({ context: 'server', access: 'secret', optional: true }),
+      MAIL_WEBHOOK_URL: envField.string({ context: 'server', access: 'secret', optional: true }),
+      MAIL_FILE: envField.string({ context: 'server', access: 'secret', default: '.mail/outbox.jsonl' }),
+      NEWSLETTER_DB: envField.string({ context: 'server', access: 'secret', default: '.data/newsletter.db' }),
+    },
+  },
   integrations: [
     react(),
     mdx(),
     tailwind({
       applyBaseStyles: false, // We'll use our own global.css
     }),
-    sitemap(),
+    // Warns about broken links, missing alt text, long descriptions and more before each build;
+    // CONTENT_LINT=strict turns the warnings into errors that fail the build
+    contentLint({ strict: process.env.CONTENT_LINT === 'strict' }),
+    sitemap({
+      // Adds hreflang links between the /en/ and /de/ versions of each page
+      i18n: {
+        defaultLocale: DEFAULT_LOCALE,
+        locales: Object.fromEntries(LOCALES.map((locale) => [locale, LOCALE_INFO[locale].intl])),
+      },
+    }),
   ],
+  // Every page lives under a locale prefix (/en/..., /de/...); / redirects to the default locale.
+  // Feeds, the search index, citation exports and social cards stay unprefixed.
+  i18n: {
+    defaultLocale: DEFAULT_LOCALE,
+    locales: [...LOCALES],
+    routing: {
+      prefixDefaultLocale: true,
+      redirectToDefaultLocale: true,
+    },
+  },
+  // Section pages moved under the locale prefix; redirect their old unprefixed URLs
+  redirects: {
+    '/about': '/en/about',
+    '/contact': '/en/contact',
+    '/publications': '/en/publications',
+    '/blog': '/en/blog',
+    '/works': '/en/works',
+  },
   image: {
     // Image optimization configuration
     domains: [], // Add external domains if needed
     remotePatterns: [], // Add remote patterns if needed
   },
   markdown: {
+    // LaTeX math ($inline$ and $$display$$), rendered to HTML + MathML at build time
+    // remarkEquations numbers equations with \label{...} and resolves \eqref{...}
+    remarkPlugins: [remarkMath, remarkEquations],
+    rehypePlugins: [rehypeKatex],
     // Shiki syntax highlighting configuration
     shikiConfig: {
-      // Choose from Shiki's built-in themes (or add your own)
-      // Light theme for light mode, dark theme for dark mode
-      theme: 'github-dark',
-      // Alternative: Use dual themes for light/dark mode
-      // themes: {
-      //   light: 'github-light',
-      //   dark: 'github-dark',
-      // },
+      // Dual themes: colors are emitted as --shiki-light/--shiki-dark variables
+      // and switched by the `dark` class on <html> (see global.css)
+      themes: {
+        light: 'github-light',
+        dark: 'github-dark',
+      },
+      defaultColor: false,
+      // Line annotations: ```ts {2,4-5} highlights lines by number,
+      // `// [!code highlight]`, `// [!code ++]` and `// [!code --]` mark single lines
+      transformers: [
+        transformerMetaHighlight(),
+        transformerNotationHighlight(),
+        transformerNotationDiff(),
+        transformerCodeBlocks(),
+      ],
       // Enable word wrap to prevent horizontal scrolling
       wrap: true,
       // Add custom languages if needed
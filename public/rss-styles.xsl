@@ -0,0 +1,88 @@
+<?xml version="1.0" encoding="utf-8"?>
+<!--
+  Renders RSS feeds as a readable page when opened in a browser.
+  Feed readers ignore this stylesheet.
+-->
+<xsl:stylesheet version="1.0"
+  xmlns:xsl="http://www.w3.org/1999/XSL/Transform"
+  xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <xsl:output method="html" version="1.0" encoding="UTF-8" indent="yes" />
+
+  <xsl:template match="/">
+    <html lang="en">
+      <head>
+        <meta charset="UTF-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <title><xsl:value-of select="/rss/channel/title" /> · RSS Feed</title>
+        <style>
+          :root { color-scheme: light dark; }
+          body {
+            margin: 0;
+            font-family: Inter, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+            line-height: 1.6;
+            background: #f1f5f9;
+            color: #0f172a;
+          }
+          main { max-width: 48rem; margin: 0 auto; padding: 3rem 1.5rem; }
+          a { color: #2563eb; text-decoration: none; }
+          a:hover { text-decoration: underline; }
+          .notice {
+            padding: 1rem 1.25rem;
+            border-radius: 0.5rem;
+            background: #dbeafe;
+            color: #1e3a8a;
+            font-size: 0.875rem;
+          }
+          h1 { font-size: 2.25rem; margin: 2rem 0 0.5rem; }
+          .description { color: #64748b; font-size: 1.125rem; margin: 0 0 2rem; }
+          .item {
+            padding: 1.5rem;
+            margin-bottom: 1rem;
+            border: 1px solid #e2e8f0;
+            border-radius: 0.5rem;
+            background: #ffffff;
+          }
+          .item h2 { font-size: 1.25rem; margin: 0 0 0.25rem; }
+          .item p { margin: 0.5rem 0 0; color: #64748b; }
+          .date { font-size: 0.875rem; color: #64748b; }
+          @media (prefers-color-scheme: dark) {
+            body { background: #0f172a; color: #f8fafc; }
+            a { color: #60a5fa; }
+            .notice { background: rgba(30, 58, 138, 0.3); color: #bfdbfe; }
+            .description, .item p, .date { color: #94a3b8; }
+            .item { background: #1e293b; border-color: #334155; }
+          }
+        </style>
+      </head>
+      <body>
+        <main>
+          <p class="notice">
+            This is an RSS feed. Copy the URL from the address bar into your feed reader to subscribe.
+          </p>
+
+          <h1><xsl:value-of select="/rss/channel/title" /></h1>
+          <p class="description"><xsl:value-of select="/rss/channel/description" /></p>
+          <p>
+            <a>
+              <xsl:attribute name="href"><xsl:value-of select="/rss/channel/link" /></xsl:attribute>
+              Visit the website →
+            </a>
+          </p>
+
+          <xsl:for-each select="/rss/channel/item">
+            <article class="item">
+              <h2>
+                <a>
+                  <xsl:attribute name="href"><xsl:value-of select="link" /></xsl:attribute>
+                  <xsl:value-of select="title" />
+                </a>
+              </h2>
+              <div class="date"><xsl:value-of select="substring(pubDate, 6, 11)" /></div>
+              <p><xsl:value-of select="description" /></p>
+            </article>
+          </xsl:for-each>
+        </main>
+      </body>
+    </html>
+  </xsl:template>
+</xsl:stylesheet>
@@ -0,0 +1,17 @@
+import { formatProblem, lintContent } from '../src/plugins/contentLint';
+
+// Lint blog posts and works: npm run lint:content [-- --strict]
+// Without --strict, problems are reported but the exit code stays 0.
+const strict = process.argv.includes('--strict');
+const problems = await lintContent(process.cwd());
+
+for (const problem of problems) {
+  console.log(formatProblem(problem));
+}
+
+if (problems.length === 0) {
+  console.log('No content problems found.');
+} else {
+  console.log(`\n${problems.length} ${problems.length === 1 ? 'problem' : 'problems'} found.`);
+  if (strict) process.exitCode = 1;
+}
@@ -0,0 +1,81 @@
+import fs from 'node:fs';
+import { SITE } from '../src/config/site';
+import { createConsoleTransport, getMailTransport, type MailConfig } from '../src/utils/mail';
+import { openSubscriberStore } from '../src/utils/subscribers';
+import { loadDigestPosts, renderDigestEmail, selectDigestPosts } from '../src/utils/digest';
+
+// Email the posts published since the last digest to every confirmed subscriber:
+// npm run newsletter:digest [-- --dry-run] [-- --since 2026-01-01]
+// The first digest covers the last 30 days unless --since is given.
+// --dry-run prints the emails instead of sending them and doesn't record the digest.
+const FIRST_DIGEST_DAYS = 30;
+
+// Same settings as the server: the environment, then .env
+if (fs.existsSync('.env')) process.loadEnvFile('.env');
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const sinceArg = args.includes('--since') ? args[args.indexOf('--since') + 1] : undefined;
+
+if (sinceArg !== undefined && Number.isNaN(new Date(sinceArg).getTime())) {
+  console.error(`Invalid --since date "${sinceArg}"; use YYYY-MM-DD.`);
+  process.exit(1);
+}
+
+const store = openSubscriberStore(process.env.NEWSLETTER_DB || '.data/newsletter.db');
+
+try {
+  const lastDigest = store.getLastDigest();
+
+  // Posts dated the day of the last digest may have gone live after it, so start
+  // at the beginning of that day and skip the posts it already contained
+  const since = sinceArg
+    ? new Date(sinceArg)
+    : lastDigest
+      ? new Date(lastDigest.sentAt.toISOString().slice(0, 10))
+      : new Date(Date.now() - FIRST_DIGEST_DAYS * 24 * 60 * 60 * 1000);
+  const excludeKeys = sinceArg ? [] : (lastDigest?.postKeys ?? []);
+
+  const posts = await loadDigestPosts(process.cwd());
+  const subscribers = store.listConfirmed();
+  const transport = dryRun
+    ? createConsoleTransport(process.env.MAIL_FROM || SITE.email)
+    : getMailTransport(process.env as MailConfig, { from: SITE.email, dev: false });
+
+  console.log(`Posts since ${since.toISOString().slice(0, 10)}, ${subscribers.length} confirmed subscribers, via ${transport.name}`);
+
+  const sentKeys = new Set<string>();
+  let delivered = 0;
+  let failed = 0;
+
+  for (const subscriber of subscribers) {
+    const digestPosts = selectDigestPosts(posts, subscriber.lang, since, excludeKeys);
+    if (digestPosts.length === 0) continue;
+
+    try {
+      await transport.send({
+        to: subscriber.email,
+        ...renderDigestEmail({ posts: digestPosts, locale: subscriber.lang, unsubscribeToken: subscriber.unsubscribeToken }),
+      });
+      digestPosts.forEach((post) => sentKeys.add(post.key));
+      delivered += 1;
+    } catch (error) {
+      console.error(`Sending to ${subscriber.email} failed:`, error);
+      failed += 1;
+    }
+  }
+
+  if (delivered === 0 && failed === 0) {
+    console.log('No new posts to send.');
+  } else {
+    console.log(`Digest sent to ${delivered} ${delivered === 1 ? 'subscriber' : 'subscribers'}${failed ? `, ${failed} failed` : ''}.`);
+  }
+
+  // Record partial sends too, so the subscribers who got it don't get it twice
+  if (!dryRun && delivered > 0) {
+    store.recordDigest(new Date(), [...sentKeys], delivered);
+  }
+  if (failed > 0) process.exitCode = 1;
+} finally {
+  store.close();
+}
@@ -0,0 +1,21 @@
+import Callout from './Callout.astro';
+import CodeTab from './CodeTab.astro';
+import CodeTabs from './CodeTabs.astro';
+import Comparison from './Comparison.astro';
+import ComparisonItem from './ComparisonItem.astro';
+import Details from './Details.astro';
+import Figure from './Figure.astro';
+import Sidenote from './Sidenote.astro';
+
+// Components available in every blog post and work without imports
+// Passed to <Content components={mdxComponents} /> wherever an entry is rendered
+export const mdxComponents = {
+  Callout,
+  CodeTab,
+  CodeTabs,
+  Comparison,
+  ComparisonItem,
+  Details,
+  Figure,
+  Sidenote,
+};
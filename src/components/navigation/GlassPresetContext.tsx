@@ -0,0 +1,39 @@
+import { createContext, useContext, type ReactNode } from 'react';
+import { GLASS_PRESETS, type GlassParams, type GlassPreset, type GlassPresetName } from '../../config/glass';
+
+export type GlassPresetOverrides = Partial<Record<GlassPresetName, Partial<Record<'light' | 'dark', GlassParams>>>>;
+
+const GlassPresetContext = createContext<Record<GlassPresetName, GlassPreset>>(GLASS_PRESETS);
+
+interface GlassPresetProviderProps {
+  presets: GlassPresetOverrides;
+  children?: ReactNode;
+}
+
+/**
+ * Override glass presets for every GlassSurface in a subtree.
+ * Overrides are merged per parameter on top of the enclosing provider (or the defaults).
+ */
+export function GlassPresetProvider({ presets, children }: GlassPresetProviderProps) {
+  const parent = useContext(GlassPresetContext);
+
+  const merged = { ...parent };
+  for (const [name, override] of Object.entries(presets) as [GlassPresetName, GlassPresetOverrides[GlassPresetName]][]) {
+    merged[name] = {
+      light: { ...parent[name].light, ...override?.light },
+      dark: { ...parent[name].dark, ...override?.dark },
+    };
+  }
+
+  return <GlassPresetContext.Provider value={merged}>{children}</GlassPresetContext.Provider>;
+}
+
+/**
+ * Resolve a preset to its parameters for the current theme
+ * @param name - Preset name (no preset resolves to an empty set)
+ * @param isDark - Whether dark mode is active
+ */
+export function useGlassPreset(name: GlassPresetName | undefined, isDark: boolean): GlassParams {
+  const presets = useContext(GlassPresetContext);
+  return name ? presets[name][isDark ? 'dark' : 'light'] : {};
+}
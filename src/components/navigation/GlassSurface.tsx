@@ -1,22 +1,13 @@
 import React, { useEffect, useRef, useId } from 'react';
 import { useDarkMode } from '../../hooks/useTheme';
+import { useGlassPreset } from './GlassPresetContext';
+import type { GlassParams, GlassPresetName } from '../../config/glass';
 
-export interface GlassSurfaceProps {
+export interface GlassSurfaceProps extends GlassParams {
   children?: React.ReactNode;
   width?: number | string;
   height?: number | string;
-  borderRadius?: number;
-  borderWidth?: number;
-  brightness?: number;
-  opacity?: number;
-  blur?: number;
-  displace?: number;
-  backgroundOpacity?: number;
-  saturation?: number;
-  distortionScale?: number;
-  redOffset?: number;
-  greenOffset?: number;
-  blueOffset?: number;
+  preset?: GlassPresetName; // Named parameter set; explicit props take precedence
   xChannel?: 'R' | 'G' | 'B';
   yChannel?: 'R' | 'G' | 'B';
   mixBlendMode?:
@@ -40,149 +31,219 @@ export interface GlassSurfaceProps {
     | 'plus-lighter';
   className?: string;
   style?: React.CSSProperties;
-  useFallback?: boolean;
+}
+
+// Used for any parameter neither the preset nor the props set
+const DEFAULT_PARAMS: Required<GlassParams> = {
+  borderRadius: 20,
+  borderWidth: 0.07,
+  brightness: 50,
+  opacity: 0.93,
+  blur: 11,
+  displace: 0,
+  backgroundOpacity: 0,
+  saturation: 1,
+  distortionScale: -180,
+  redOffset: 0,
+  greenOffset: 10,
+  blueOffset: 20,
+  useFallback: false,
+};
+
+interface DisplacementMapParams {
+  width: number;
+  height: number;
+  borderRadius: number;
+  borderWidth: number;
+  brightness: number;
+  opacity: number;
+  blur: number;
+  mixBlendMode: string;
+}
+
+// Displacement maps are shared by every surface with the same size and params
+const MAX_CACHED_MAPS = 32;
+const displacementMapCache = new Map<string, string>();
+
+/**
+ * Build (or reuse) the data URL of the SVG displacement map for a surface
+ */
+function getDisplacementMap(params: DisplacementMapParams): string {
+  const width = Math.round(params.width);
+  const height = Math.round(params.height);
+  const key = [width, height, params.borderRadius, params.borderWidth, params.brightness, params.opacity, params.blur, params.mixBlendMode].join('|');
+
+  const cached = displacementMapCache.get(key);
+  if (cached) return cached;
+
+  const { borderRadius, brightness, opacity, blur, mixBlendMode } = params;
+  const edgeSize = Math.min(width, height) * (params.borderWidth * 0.5);
+
+  // Gradient ids are scoped to the image document, so they don't need to be unique
+  const svgContent = `
+    <svg viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
+      <defs>
+        <linearGradient id="red-grad" x1="100%" y1="0%" x2="0%" y2="0%">
+          <stop offset="0%" stop-color="#0000"/>
+          <stop offset="100%" stop-color="red"/>
+        </linearGradient>
+        <linearGradient id="blue-grad" x1="0%" y1="0%" x2="0%" y2="100%">
+          <stop offset="0%" stop-color="#0000"/>
+          <stop offset="100%" stop-color="blue"/>
+        </linearGradient>
+      </defs>
+      <rect x="0" y="0" width="${width}" height="${height}" fill="black"></rect>
+      <rect x="0" y="0" width="${width}" height="${height}" rx="${borderRadius}" fill="url(#red-grad)" />
+      <rect x="0" y="0" width="${width}" height="${height}" rx="${borderRadius}" fill="url(#blue-grad)" style="mix-blend-mode: ${mixBlendMode}" />
+      <rect x="${edgeSize}" y="${edgeSize}" width="${width - edgeSize * 2}" height="${height - edgeSize * 2}" rx="${borderRadius}" fill="hsl(0 0% ${brightness}% / ${opacity})" style="filter:blur(${blur}px)" />
+    </svg>
+  `;
+  const url = `data:image/svg+xml,${encodeURIComponent(svgContent)}`;
+
+  // Drop the oldest entry once the cache is full (Maps keep insertion order)
+  if (displacementMapCache.size >= MAX_CACHED_MAPS) {
+    displacementMapCache.delete(displacementMapCache.keys().next().value!);
+  }
+  displacementMapCache.set(key, url);
+  return url;
+}
+
+// Feature support doesn't change while the page is open, so detect it once
+let svgFilterSupport: boolean | undefined;
+
+/**
+ * Check whether the browser renders an SVG filter reference in backdrop-filter.
+ * Firefox and Safari (every iOS browser is Safari underneath) accept the url() form
+ * but don't render it, so they stay on the CSS fallback; elsewhere the value must parse.
+ */
+function supportsSVGFilters(): boolean {
+  if (typeof window === 'undefined' || typeof CSS === 'undefined') return false;
+  if (svgFilterSupport === undefined) {
+    const isWebkit = /Safari/.test(navigator.userAgent) && !/Chrome|Chromium/.test(navigator.userAgent);
+    const isFirefox = /Firefox|FxiOS/.test(navigator.userAgent);
+
+    svgFilterSupport = !isWebkit && !isFirefox && CSS.supports('backdrop-filter', 'url(#glass) saturate(1)');
+  }
+  return svgFilterSupport;
+}
+
+function supportsBackdropFilter(): boolean {
+  if (typeof window === 'undefined' || typeof CSS === 'undefined') return false;
+  return CSS.supports('backdrop-filter', 'blur(10px)') || CSS.supports('-webkit-backdrop-filter', 'blur(10px)');
 }
 
 const GlassSurface: React.FC<GlassSurfaceProps> = ({
   children,
   width = 200,
   height = 80,
-  borderRadius = 20,
-  borderWidth = 0.07,
-  brightness = 50,
-  opacity = 0.93,
-  blur = 11,
-  displace = 0,
-  backgroundOpacity = 0,
-  saturation = 1,
-  distortionScale = -180,
-  useFallback = false,
-  redOffset = 0,
-  greenOffset = 10,
-  blueOffset = 20,
+  preset,
   xChannel = 'R',
   yChannel = 'G',
   mixBlendMode = 'difference',
   className = '',
-  style = {}
+  style = {},
+  ...paramProps
 }) => {
-  const uniqueId = useId().replace(/:/g, '-');
-  const filterId = `glass-filter-${uniqueId}`;
-  const redGradId = `red-grad-${uniqueId}`;
-  const blueGradId = `blue-grad-${uniqueId}`;
-
-  const containerRef = useRef<HTMLDivElement>(null);
-  const feImageRef = useRef<SVGFEImageElement>(null);
-  const redChannelRef = useRef<SVGFEDisplacementMapElement>(null);
-  const greenChannelRef = useRef<SVGFEDisplacementMapElement>(null);
-  const blueChannelRef = useRef<SVGFEDisplacementMapElement>(null);
-  const gaussianBlurRef = useRef<SVGFEGaussianBlurElement>(null);
-
   const isDarkMode = useDarkMode();
+  const presetParams = useGlassPreset(preset, isDarkMode);
 
-  const generateDisplacementMap = () => {
-    const rect = containerRef.current?.getBoundingClientRect();
-    const actualWidth = rect?.width || 400;
-    const actualHeight = rect?.height || 200;
-    const edgeSize = Math.min(actualWidth, actualHeight) * (borderWidth * 0.5);
-
-    const svgContent = `
-      <svg viewBox="0 0 ${actualWidth} ${actualHeight}" xmlns="http://www.w3.org/2000/svg">
-        <defs>
-          <linearGradient id="${redGradId}" x1="100%" y1="0%" x2="0%" y2="0%">
-            <stop offset="0%" stop-color="#0000"/>
-            <stop offset="100%" stop-color="red"/>
-          </linearGradient>
-          <linearGradient id="${blueGradId}" x1="0%" y1="0%" x2="0%" y2="100%">
-            <stop offset="0%" stop-color="#0000"/>
-            <stop offset="100%" stop-color="blue"/>
-          </linearGradient>
-        </defs>
-        <rect x="0" y="0" width="${actualWidth}" height="${actualHeight}" fill="black"></rect>
-        <rect x="0" y="0" width="${actualWidth}" height="${actualHeight}" rx="${borderRadius}" fill="url(#${redGradId})" />
-        <rect x="0" y="0" width="${actualWidth}" height="${actualHeight}" rx="${borderRadius}" fill="url(#${blueGradId})" style="mix-blend-mode: ${mixBlendMode}" />
-        <rect x="${edgeSize}" y="${edgeSize}" width="${actualWidth - edgeSize * 2}" height="${actualHeight - edgeSize * 2}" rx="${borderRadius}" fill="hsl(0 0% ${brightness}% / ${opacity})" style="filter:blur(${blur}px)" />
-      </svg>
-    `;
-
-    return `data:image/svg+xml,${encodeURIComponent(svgContent)}`;
-  };
-
-  const updateDisplacementMap = () => {
-    feImageRef.current?.setAttribute('href', generateDisplacementMap());
-  };
-
-  useEffect(() => {
-    updateDisplacementMap();
-    [
-      { ref: redChannelRef, offset: redOffset },
-      { ref: greenChannelRef, offset: greenOffset },
-      { ref: blueChannelRef, offset: blueOffset }
-    ].forEach(({ ref, offset }) => {
-      if (ref.current) {
-        ref.current.setAttribute('scale', (distortionScale + offset).toString());
-        ref.current.setAttribute('xChannelSelector', xChannel);
-        ref.current.setAttribute('yChannelSelector', yChannel);
-      }
-    });
-
-    gaussianBlurRef.current?.setAttribute('stdDeviation', displace.toString());
-  }, [
-    width,
-    height,
+  // Props left undefined fall through to the preset, then the defaults
+  const definedProps = Object.fromEntries(
+    Object.entries(paramProps).filter(([, value]) => value !== undefined)
+  ) as GlassParams;
+  const {
     borderRadius,
     borderWidth,
     brightness,
     opacity,
     blur,
     displace,
+    backgroundOpacity,
+    saturation,
     distortionScale,
     redOffset,
     greenOffset,
     blueOffset,
-    xChannel,
-    yChannel,
-    mixBlendMode
-  ]);
-
-  useEffect(() => {
-    if (!containerRef.current) return;
+    useFallback,
+  } = { ...DEFAULT_PARAMS, ...presetParams, ...definedProps };
 
-    const resizeObserver = new ResizeObserver(() => {
-      setTimeout(updateDisplacementMap, 0);
-    });
+  const uniqueId = useId().replace(/:/g, '-');
+  const filterId = `glass-filter-${uniqueId}`;
 
-    resizeObserver.observe(containerRef.current);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const feImageRef = useRef<SVGFEImageElement>(null);
 
-    return () => {
-      resizeObserver.disconnect();
-    };
-  }, []);
+  // Last measured size, kept up to date by the ResizeObserver
+  const sizeRef = useRef({ width: 400, height: 200 });
+  const frameRef = useRef<number | null>(null);
 
-  useEffect(() => {
-    setTimeout(updateDisplacementMap, 0);
-  }, [width, height]);
+  // Work is paused while the surface is offscreen or the tab is hidden;
+  // an update requested meanwhile runs as soon as it becomes visible again
+  const isOnScreenRef = useRef(true);
+  const isDirtyRef = useRef(false);
 
-  const supportsSVGFilters = () => {
-    if (typeof window === 'undefined' || typeof document === 'undefined') return false;
+  const displacementParams = { borderRadius, borderWidth, brightness, opacity, blur, mixBlendMode };
+  const paramsRef = useRef(displacementParams);
+  paramsRef.current = displacementParams;
 
-    const isWebkit = /Safari/.test(navigator.userAgent) && !/Chrome/.test(navigator.userAgent);
-    const isFirefox = /Firefox/.test(navigator.userAgent);
+  const updateDisplacementMap = () => {
+    feImageRef.current?.setAttribute('href', getDisplacementMap({ ...sizeRef.current, ...paramsRef.current }));
+  };
 
-    if (isWebkit || isFirefox) {
-      return false;
+  // Coalesce updates into at most one per animation frame
+  const scheduleUpdate = () => {
+    if (!isOnScreenRef.current || document.hidden) {
+      isDirtyRef.current = true;
+      return;
     }
+    if (frameRef.current !== null) return;
 
-    // Chrome/Chromium/Edge all support SVG filters in backdrop-filter
-    // If we're here (not Safari, not Firefox), we're on a Chromium-based browser
-    return true;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      isDirtyRef.current = false;
+      updateDisplacementMap();
+    });
   };
 
-  const supportsBackdropFilter = () => {
-    if (typeof window === 'undefined') return false;
-    return CSS.supports('backdrop-filter', 'blur(10px)');
+  const resumeIfDirty = () => {
+    if (isDirtyRef.current) scheduleUpdate();
   };
 
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // Also fires once on observe, which provides the initial size
+    const resizeObserver = new ResizeObserver(([entry]) => {
+      const box = entry.borderBoxSize?.[0];
+      const width = box ? box.inlineSize : entry.contentRect.width;
+      const height = box ? box.blockSize : entry.contentRect.height;
+      if (!width || !height) return;
+
+      sizeRef.current = { width, height };
+      scheduleUpdate();
+    });
+    resizeObserver.observe(container);
+
+    const intersectionObserver = new IntersectionObserver(([entry]) => {
+      isOnScreenRef.current = entry.isIntersecting;
+      resumeIfDirty();
+    });
+    intersectionObserver.observe(container);
+
+    const handleVisibilityChange = () => {
+      if (!document.hidden) resumeIfDirty();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      resizeObserver.disconnect();
+      intersectionObserver.disconnect();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, []);
+
   const getContainerStyles = (): React.CSSProperties => {
     const baseStyles: React.CSSProperties = {
       ...style,
@@ -285,9 +346,9 @@ const GlassSurface: React.FC<GlassSurfaceProps> = ({
       >
         <defs>
           <filter id={filterId} colorInterpolationFilters="sRGB" x="0%" y="0%" width="100%" height="100%">
-            <feImage ref={feImageRef} x="0" y="0" width="100%" height="100%" preserveAspectRatio="none" result="map" href={generateDisplacementMap()} />
+            <feImage ref={feImageRef} x="0" y="0" width="100%" height="100%" preserveAspectRatio="none" result="map" href={getDisplacementMap({ ...sizeRef.current, ...displacementParams })} />
 
-            <feDisplacementMap ref={redChannelRef} in="SourceGraphic" in2="map" id="redchannel" result="dispRed" scale={distortionScale + redOffset} xChannelSelector={xChannel} yChannelSelector={yChannel} />
+            <feDisplacementMap in="SourceGraphic" in2="map" id="redchannel" result="dispRed" scale={distortionScale + redOffset} xChannelSelector={xChannel} yChannelSelector={yChannel} />
             <feColorMatrix
               in="dispRed"
               type="matrix"
@@ -299,7 +360,6 @@ const GlassSurface: React.FC<GlassSurfaceProps> = ({
             />
 
             <feDisplacementMap
-              ref={greenChannelRef}
               in="SourceGraphic"
               in2="map"
               id="greenchannel"
@@ -318,7 +378,7 @@ const GlassSurface: React.FC<GlassSurfaceProps> = ({
               result="green"
             />
 
-            <feDisplacementMap ref={blueChannelRef} in="SourceGraphic" in2="map" id="bluechannel" result="dispBlue" scale={distortionScale + blueOffset} xChannelSelector={xChannel} yChannelSelector={yChannel} />
+            <feDisplacementMap in="SourceGraphic" in2="map" id="bluechannel" result="dispBlue" scale={distortionScale + blueOffset} xChannelSelector={xChannel} yChannelSelector={yChannel} />
             <feColorMatrix
               in="dispBlue"
               type="matrix"
@@ -331,7 +391,7 @@ const GlassSurface: React.FC<GlassSurfaceProps> = ({
 
             <feBlend in="red" in2="green" mode="screen" result="rg" />
             <feBlend in="rg" in2="blue" mode="screen" result="output" />
-            <feGaussianBlur ref={gaussianBlurRef} in="output" stdDeviation={displace} />
+            <feGaussianBlur in="output" stdDeviation={displace} />
           </filter>
         </defs>
       </svg>
@@ -1,63 +1,158 @@
-import { useEffect, useRef, useState } from 'react';
-import { Home, User, FileText, Briefcase, Mail, Moon, Sun } from 'lucide-react';
+import { useEffect, useRef, useState, type FocusEvent, type KeyboardEvent } from 'react';
+import { motion, MotionConfig, useReducedMotion } from 'framer-motion';
+import { Moon, Sun, Monitor, Search } from 'lucide-react';
 import GlassSurface from './GlassSurface';
 import { useTheme } from '../../hooks/useTheme';
+import { openSearch } from '../../utils/search';
+import { getNavItems, isActiveNavItem } from '../../utils/navigation';
+import { useTranslations } from '../../i18n/ui';
+import type { NavItem } from '../../config/site';
+import type { Locale } from '../../config/i18n';
 
 interface LiquidGlassDockProps {
   currentPath: string;
+  locale: Locale;
 }
 
-export default function LiquidGlassDock({ currentPath }: LiquidGlassDockProps) {
+export default function LiquidGlassDock({ currentPath, locale }: LiquidGlassDockProps) {
   const dockRef = useRef<HTMLDivElement>(null);
   const [hoveredIcon, setHoveredIcon] = useState<string | null>(null);
-  const { theme, toggleTheme } = useTheme();
+  const { preference, cyclePreference } = useTheme();
+  const reduceMotion = useReducedMotion();
+  const t = useTranslations(locale);
 
+  const { primary, secondary } = getNavItems({ locale });
+
+  // Roving tabindex: the dock is a single tab stop, arrow keys move between icons
+  const itemIds = [...primary, ...secondary].map((item) => item.id).concat('search', 'theme');
+  const activeItem = [...primary, ...secondary].find((item) => isActiveNavItem(item, currentPath));
+  const [focusId, setFocusId] = useState(activeItem?.id ?? itemIds[0]);
+
+  // The dock persists across navigations; move the tab stop to the new page's item
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      const icons = dockRef.current?.querySelectorAll('.dock-icon-container');
-      if (!icons) return;
+    if (activeItem) setFocusId(activeItem.id);
+  }, [currentPath]);
+
+  // Icon centers, measured once per hover or focus instead of on every mousemove.
+  // offsetLeft ignores the magnification transforms, so scaled icons don't skew it.
+  const iconGeometryRef = useRef<{ icon: HTMLElement; centerX: number }[] | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const measureIcons = () => {
+    const icons = Array.from(dockRef.current?.querySelectorAll<HTMLElement>('.dock-icon-container') ?? []);
+    const parentLeft = (icons[0]?.offsetParent as HTMLElement | null)?.getBoundingClientRect().left ?? 0;
+
+    iconGeometryRef.current = icons.map((icon) => ({
+      icon,
+      centerX: parentLeft + icon.offsetLeft + icon.offsetWidth / 2,
+    }));
+    return iconGeometryRef.current;
+  };
+
+  // Scale each icon by its distance from the pointer (or the focused icon)
+  const magnify = (x: number) => {
+    if (reduceMotion) return;
+
+    (iconGeometryRef.current ?? measureIcons()).forEach(({ icon, centerX }) => {
+      const distance = Math.abs(x - centerX);
 
-      icons.forEach((icon) => {
-        const rect = icon.getBoundingClientRect();
-        const centerX = rect.left + rect.width / 2;
-        const distance = Math.abs(e.clientX - centerX);
+      const effectWidth = 280;
+      const theta = Math.min((Math.PI * distance) / effectWidth, Math.PI);
+      const magnitude = (Math.cos(theta) + 1) / 2;
 
-        const effectWidth = 280;
-        const theta = Math.min((Math.PI * distance) / effectWidth, Math.PI);
-        const magnitude = (Math.cos(theta) + 1) / 2;
+      const minScale = 1.0;
+      const maxScale = 1.3;
+      const scale = minScale + (maxScale - minScale) * magnitude;
 
-        const minScale = 1.0;
-        const maxScale = 1.3;
-        const scale = minScale + (maxScale - minScale) * magnitude;
+      icon.style.transform = `translateY(${(scale - 1) * -10}px) scale(${scale})`;
+    });
+  };
 
-        (icon as HTMLElement).style.transform =
-          `translateY(${(scale - 1) * -10}px) scale(${scale})`;
+  const resetScales = () => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    dockRef.current?.querySelectorAll<HTMLElement>('.dock-icon-container').forEach((icon) => {
+      icon.style.transform = 'translateY(0) scale(1)';
+    });
+  };
+
+  useEffect(() => {
+    let pointerX = 0;
+
+    // At most one magnification pass per animation frame
+    const handleMouseMove = (e: MouseEvent) => {
+      pointerX = e.clientX;
+      if (frameRef.current !== null) return;
+
+      frameRef.current = requestAnimationFrame(() => {
+        frameRef.current = null;
+        magnify(pointerX);
       });
     };
 
-    const resetScales = () => {
-      const icons = dockRef.current?.querySelectorAll('.dock-icon-container');
-      icons?.forEach((icon) => {
-        (icon as HTMLElement).style.transform = 'translateY(0) scale(1)';
-      });
+    const handleMouseEnter = () => measureIcons();
+    const handleResize = () => {
+      iconGeometryRef.current = null;
     };
 
     const dock = dockRef.current;
     if (dock) {
+      dock.addEventListener('mouseenter', handleMouseEnter);
       dock.addEventListener('mousemove', handleMouseMove);
       dock.addEventListener('mouseleave', resetScales);
     }
+    window.addEventListener('resize', handleResize);
 
     return () => {
       if (dock) {
+        dock.removeEventListener('mouseenter', handleMouseEnter);
         dock.removeEventListener('mousemove', handleMouseMove);
         dock.removeEventListener('mouseleave', resetScales);
       }
+      window.removeEventListener('resize', handleResize);
+      resetScales();
     };
-  }, []);
+  }, [reduceMotion]);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const index = itemIds.indexOf(focusId);
+    const nextIndex = {
+      ArrowRight: (index + 1) % itemIds.length,
+      ArrowLeft: (index - 1 + itemIds.length) % itemIds.length,
+      Home: 0,
+      End: itemIds.length - 1,
+    }[e.key];
+    if (nextIndex === undefined) return;
+
+    e.preventDefault();
+    dockRef.current?.querySelector<HTMLElement>(`[data-dock-id="${itemIds[nextIndex]}"]`)?.focus();
+  };
+
+  // Props shared by every icon: roving tabindex, hover/focus tooltip and magnification
+  const itemProps = (id: string) => ({
+    'data-dock-id': id,
+    tabIndex: focusId === id ? 0 : -1,
+    onMouseEnter: () => setHoveredIcon(id),
+    onMouseLeave: () => setHoveredIcon(null),
+    onFocus: (e: FocusEvent<HTMLElement>) => {
+      setFocusId(id);
+      setHoveredIcon(id);
+      const geometry = iconGeometryRef.current ?? measureIcons();
+      const centerX = geometry.find(({ icon }) => icon === e.currentTarget)?.centerX;
+      if (centerX !== undefined) magnify(centerX);
+    },
+    onBlur: () => {
+      setHoveredIcon(null);
+      resetScales();
+    },
+    className: 'relative dock-icon-container rounded-xl focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500',
+    style: { transformOrigin: 'bottom center' },
+  });
 
   const Tooltip = ({ text }: { text: string }) => (
-    <div className='absolute top-20 left-1/2 -translate-x-1/2'>
+    <div className='absolute top-20 left-1/2 -translate-x-1/2' aria-hidden='true'>
       <div className='relative px-2.5 py-0.5 bg-white/90 dark:bg-[#1d1d1f]/80 backdrop-blur-sm text-gray-800 dark:text-white text-xs rounded-md whitespace-nowrap border border-gray-300 dark:border-gray-600'>
         {text}
         <div className='absolute left-1/2 -translate-x-1/2 -top-[5px] w-2.5 h-2.5 bg-white/90 dark:bg-[#1d1d1f]/80 backdrop-blur-sm rotate-45 border-t border-l border-gray-300 dark:border-gray-600' />
@@ -65,72 +160,106 @@ export default function LiquidGlassDock({ currentPath }: LiquidGlassDockProps) {
     </div>
   );
 
-  const navItems = [
-    { id: 'home', label: 'Home', href: '/', icon: Home, gradient: 'from-blue-600 to-blue-400' },
-    { id: 'about', label: 'About', href: '/about', icon: User, gradient: 'from-purple-600 to-purple-400' },
-    { id: 'blog', label: 'Blog', href: '/blog', icon: FileText, gradient: 'from-green-600 to-green-400' },
-    { id: 'works', label: 'Works', href: '/works', icon: Briefcase, gradient: 'from-orange-600 to-orange-400' },
-    { id: 'contact', label: 'Contact', href: '/contact', icon: Mail, gradient: 'from-red-600 to-red-400' },
-  ];
+  const Badge = ({ text }: { text: string }) => (
+    <span className='absolute -top-1.5 -right-1.5 px-1.5 min-w-5 h-5 flex items-center justify-center rounded-full bg-red-500 text-white text-[10px] font-semibold leading-none shadow'>
+      {text}
+    </span>
+  );
 
-  return (
-    <div className='fixed top-4 left-1/2 -translate-x-1/2 z-50'>
-      <div className='overflow-visible'>
-        <GlassSurface
-          width="auto"
-          borderRadius={16}
-          displace={1}
-          distortionScale={-180}
-          backgroundOpacity={0.33}
-          brightness={50}
-          opacity={0.9}
-          className="px-3 py-6 !overflow-visible"
-        >
-          <div ref={dockRef} className='flex items-end space-x-6 overflow-visible'>
-            {navItems.map((item) => {
-              const Icon = item.icon;
-              const isActive = currentPath === item.href || (item.href !== '/' && currentPath.startsWith(item.href));
-
-              return (
-                <a
-                  key={item.id}
-                  href={item.href}
-                  onMouseEnter={() => setHoveredIcon(item.id)}
-                  onMouseLeave={() => setHoveredIcon(null)}
-                  className='relative dock-icon-container'
-                  style={{ transformOrigin: 'bottom center' }}
-                >
-                  <div className={`w-14 h-14 bg-gradient-to-t ${item.gradient} rounded-xl flex items-center justify-center shadow-lg transition-transform ${isActive ? 'ring-2 ring-white/50' : ''}`}>
-                    <Icon size={32} className='text-white' strokeWidth={2} />
-                  </div>
-                  {hoveredIcon === item.id && <Tooltip text={item.label} />}
-                </a>
-              );
-            })}
-
-            <div className='flex items-center'>
-              <div className='w-px h-14 bg-black/50 dark:bg-white/50' />
-            </div>
+  // The theme button cycles light → dark → system and shows the current choice
+  const themeOptions = {
+    light: { icon: Sun, className: 'text-yellow-300' },
+    dark: { icon: Moon, className: 'text-blue-200' },
+    system: { icon: Monitor, className: 'text-white' },
+  };
+  const themeOption = themeOptions[preference];
+  const themeLabel = t('nav.themeValue', { theme: t(`theme.${preference}`) });
+  const ThemeIcon = themeOption.icon;
+
+  const renderNavItem = (item: NavItem) => {
+    const Icon = item.icon;
+    const isActive = isActiveNavItem(item, currentPath);
 
-            <button
-              onClick={toggleTheme}
-              onMouseEnter={() => setHoveredIcon('theme')}
-              onMouseLeave={() => setHoveredIcon(null)}
-              className='relative dock-icon-container'
-              style={{ transformOrigin: 'bottom center' }}
+    return (
+      <a
+        key={item.id}
+        href={item.href}
+        {...(item.external && { target: '_blank', rel: 'noopener noreferrer' })}
+        {...itemProps(item.id)}
+        aria-label={item.badge ? `${item.label} (${item.badge})` : item.label}
+        aria-current={isActive ? 'page' : undefined}
+      >
+        <div className={`w-14 h-14 bg-gradient-to-t ${item.gradient} rounded-xl flex items-center justify-center shadow-lg transition-transform`}>
+          <Icon size={32} className='text-white' strokeWidth={2} aria-hidden='true' />
+        </div>
+        {/* Shared layoutId: the dot slides to the new item when the route changes */}
+        {isActive && (
+          <motion.span
+            layoutId='dock-active-indicator'
+            className='absolute -bottom-3 left-0 right-0 mx-auto w-1.5 h-1.5 rounded-full bg-black/70 dark:bg-white/80'
+            transition={{ type: 'spring', stiffness: 400, damping: 30 }}
+            aria-hidden='true'
+          />
+        )}
+        {item.badge && <Badge text={item.badge} />}
+        {hoveredIcon === item.id && <Tooltip text={item.label} />}
+      </a>
+    );
+  };
+
+  return (
+    <MotionConfig reducedMotion='user'>
+      <nav className='fixed top-4 left-1/2 -translate-x-1/2 z-50' aria-label={t('nav.main')}>
+        <div className='overflow-visible'>
+          <GlassSurface
+            preset="dock"
+            width="auto"
+            className="px-3 py-6 !overflow-visible"
+          >
+            <div
+              ref={dockRef}
+              role='toolbar'
+              aria-label={t('nav.toolbar')}
+              aria-orientation='horizontal'
+              onKeyDown={handleKeyDown}
+              className='flex items-end space-x-6 overflow-visible'
             >
-              <div className='w-14 h-14 bg-gradient-to-t from-gray-700 to-gray-500 rounded-xl flex items-center justify-center shadow-lg transition-transform'>
-                {theme === 'dark' ? (
-                  <Sun size={32} className='text-yellow-300' strokeWidth={2} />
-                ) : (
-                  <Moon size={32} className='text-blue-200' strokeWidth={2} />
-                )}
+              {primary.map(renderNavItem)}
+
+              <div className='flex items-center' role='separator' aria-orientation='vertical'>
+                <div className='w-px h-14 bg-black/50 dark:bg-white/50' />
               </div>
-              {hoveredIcon === 'theme' && <Tooltip text={theme === 'dark' ? 'Light Mode' : 'Dark Mode'} />}
-            </button>
-          </div>
-        </GlassSurface>
-      </div>
-    </div>
+
+              {secondary.map(renderNavItem)}
+
+              <button
+                type='button'
+                onClick={openSearch}
+                {...itemProps('search')}
+                aria-label={t('nav.search')}
+                aria-haspopup='dialog'
+              >
+                <div className='w-14 h-14 bg-gradient-to-t from-sky-600 to-sky-400 rounded-xl flex items-center justify-center shadow-lg transition-transform'>
+                  <Search size={32} className='text-white' strokeWidth={2} aria-hidden='true' />
+                </div>
+                {hoveredIcon === 'search' && <Tooltip text={t('nav.search')} />}
+              </button>
+
+              <button
+                type='button'
+                onClick={cyclePreference}
+                {...itemProps('theme')}
+                aria-label={themeLabel}
+              >
+                <div className='w-14 h-14 bg-gradient-to-t from-gray-700 to-gray-500 rounded-xl flex items-center justify-center shadow-lg transition-transform'>
+                  <ThemeIcon size={32} className={themeOption.className} strokeWidth={2} aria-hidden='true' />
+                </div>
+                {hoveredIcon === 'theme' && <Tooltip text={themeLabel} />}
+              </button>
+            </div>
+          </GlassSurface>
+        </div>
+      </nav>
+    </MotionConfig>
   );
 }
@@ -1,11 +1,16 @@
-import { useState } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Home, User, FileText, Briefcase, Mail, Moon, Sun, type LucideIcon } from 'lucide-react';
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import { motion, AnimatePresence, MotionConfig } from 'framer-motion';
+import { Plus, Moon, Sun, Monitor, Search, type LucideIcon } from 'lucide-react';
 import GlassSurface from './GlassSurface';
-import { useTheme } from '../../hooks/useTheme';
+import { useTheme, type ThemePreference } from '../../hooks/useTheme';
+import { openSearch } from '../../utils/search';
+import { getNavItems, isActiveNavItem } from '../../utils/navigation';
+import { useTranslations } from '../../i18n/ui';
+import type { Locale } from '../../config/i18n';
 
 interface LiquidGlassMobileMenuProps {
   currentPath: string;
+  locale: Locale;
 }
 
 type MenuItem = {
@@ -14,62 +19,126 @@ type MenuItem = {
   icon: LucideIcon;
   gradient: string;
   href?: string;
+  external?: boolean;
+  badge?: string;
   onClick?: () => void;
 };
 
-export default function LiquidGlassMobileMenu({ currentPath }: LiquidGlassMobileMenuProps) {
+export default function LiquidGlassMobileMenu({ currentPath, locale }: LiquidGlassMobileMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const { theme, toggleTheme: toggleThemeHook } = useTheme();
+  const { preference, setPreference } = useTheme();
+  const toggleRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const t = useTranslations(locale);
 
-  const toggleTheme = () => {
-    toggleThemeHook();
-    setIsOpen(false);
-  };
-
-  const navItems: MenuItem[] = [
-    { id: 'home', label: 'Home', href: '/', icon: Home, gradient: 'from-blue-600 to-blue-400' },
-    { id: 'about', label: 'About', href: '/about', icon: User, gradient: 'from-purple-600 to-purple-400' },
-    { id: 'blog', label: 'Blog', href: '/blog', icon: FileText, gradient: 'from-green-600 to-green-400' },
-    { id: 'works', label: 'Works', href: '/works', icon: Briefcase, gradient: 'from-orange-600 to-orange-400' },
-    { id: 'contact', label: 'Contact', href: '/contact', icon: Mail, gradient: 'from-red-600 to-red-400' },
-  ];
+  const { primary, secondary } = getNavItems({ mobile: true, locale });
 
   const allItems: MenuItem[] = [
-    ...navItems,
+    ...primary,
+    ...secondary,
     {
-      id: 'theme',
-      label: theme === 'dark' ? 'Light Mode' : 'Dark Mode',
-      icon: theme === 'dark' ? Sun : Moon,
-      gradient: 'from-gray-700 to-gray-500',
-      onClick: toggleTheme,
-    }
+      id: 'search',
+      label: t('nav.search'),
+      icon: Search,
+      gradient: 'from-sky-600 to-sky-400',
+      onClick: () => {
+        setIsOpen(false);
+        openSearch();
+      },
+    },
   ];
 
+  const themeOptions: { id: ThemePreference; label: string; icon: LucideIcon }[] = [
+    { id: 'light', label: t('theme.light'), icon: Sun },
+    { id: 'dark', label: t('theme.dark'), icon: Moon },
+    { id: 'system', label: t('theme.system'), icon: Monitor },
+  ];
+
+  // While open: lock page scroll, trap Tab inside the menu and close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const menu = menuRef.current;
+    const getFocusable = () =>
+      Array.from(menu?.querySelectorAll<HTMLElement>('a[href], button:not([disabled])') ?? [])
+        .filter((element) => element.tabIndex >= 0);
+
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+
+    // Items mount with the menu, so wait a frame before moving focus into it
+    const frame = requestAnimationFrame(() => getFocusable()[0]?.focus());
+
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setIsOpen(false);
+        return;
+      }
+      if (e.key !== 'Tab') return;
+
+      const focusable = getFocusable();
+      if (focusable.length === 0) return;
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+
+      if (e.shiftKey && (document.activeElement === first || !menu?.contains(document.activeElement))) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (document.activeElement === last || !menu?.contains(document.activeElement))) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = previousOverflow;
+
+      // Hand focus back to the toggle, unless it already moved on (e.g. into search)
+      const active = document.activeElement;
+      if (!active || active === document.body || menu?.contains(active)) {
+        toggleRef.current?.focus();
+      }
+    };
+  }, [isOpen]);
+
+  // Arrow keys move the theme selection, like native radio buttons
+  const handleThemeKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const step = { ArrowRight: 1, ArrowDown: 1, ArrowLeft: -1, ArrowUp: -1 }[e.key];
+    if (!step) return;
+
+    e.preventDefault();
+    const index = themeOptions.findIndex((option) => option.id === preference);
+    const next = themeOptions[(index + step + themeOptions.length) % themeOptions.length];
+    setPreference(next.id);
+    e.currentTarget.querySelector<HTMLElement>(`[data-theme-option="${next.id}"]`)?.focus();
+  };
+
   return (
-    <>
+    <MotionConfig reducedMotion="user">
       {/* Plus/X Button */}
-      <motion.div
-        className="fixed top-4 right-4 z-50 cursor-pointer"
+      <motion.button
+        ref={toggleRef}
+        type="button"
+        className="fixed top-4 right-4 z-50 cursor-pointer rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
         onClick={() => setIsOpen(!isOpen)}
+        aria-label={isOpen ? t('nav.closeMenu') : t('nav.openMenu')}
+        aria-expanded={isOpen}
+        aria-controls="mobile-menu"
       >
-        <GlassSurface
-          width={56}
-          height={56}
-          borderRadius={28}
-          displace={1}
-          distortionScale={-180}
-          backgroundOpacity={0.33}
-          brightness={50}
-          opacity={0.9}
-        >
+        <GlassSurface preset="pill" width={56} height={56}>
           <motion.div
             animate={{ rotate: isOpen ? 45 : 0 }}
             transition={{ type: 'spring', stiffness: 300, damping: 25 }}
           >
-            <Plus className="w-6 h-6 text-foreground dark:text-foreground-dark" />
+            <Plus className="w-6 h-6 text-foreground dark:text-foreground-dark" aria-hidden="true" />
           </motion.div>
         </GlassSurface>
-      </motion.div>
+      </motion.button>
 
       {/* Backdrop */}
       <AnimatePresence>
@@ -80,12 +149,20 @@ export default function LiquidGlassMobileMenu({ currentPath }: LiquidGlassMobile
             exit={{ opacity: 0 }}
             className="fixed inset-0 z-40 bg-black/50"
             onClick={() => setIsOpen(false)}
+            aria-hidden="true"
           />
         )}
       </AnimatePresence>
 
       {/* Menu Container - Always mounted */}
       <motion.div
+        ref={menuRef}
+        id="mobile-menu"
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('nav.menu')}
+        aria-hidden={!isOpen}
+        inert={!isOpen}
         initial={{ opacity: 0, scale: 0.5, x: 0, y: 0 }}
         animate={isOpen ? { opacity: 1, scale: 1, x: 20, y: 80 } : { opacity: 0, scale: 0.5, x: 0, y: 0 }}
         transition={{ type: 'spring', stiffness: 300, damping: 30 }}
@@ -94,23 +171,17 @@ export default function LiquidGlassMobileMenu({ currentPath }: LiquidGlassMobile
         className="fixed top-4 left-4 z-50"
       >
         <GlassSurface
+          preset="panel"
           width="auto"
           height="auto"
-          borderRadius={16}
-          displace={1}
-          distortionScale={-180}
-          backgroundOpacity={0.33}
-          brightness={50}
-          opacity={0.9}
-          useFallback={true}
           className="p-4"
         >
-          <div className="flex flex-col gap-3">
+          <nav className="flex flex-col gap-3" aria-label={t('nav.main')}>
             <AnimatePresence>
               {isOpen && allItems.map((item, i) => {
                 const Icon = item.icon;
-                const isActive = item.href ? (currentPath === item.href || (item.href !== '/' && currentPath.startsWith(item.href))) : false;
-                const isButton = item.id === 'theme';
+                const isActive = isActiveNavItem(item, currentPath);
+                const isButton = !item.href;
 
                 const content = (
                   <motion.div
@@ -127,19 +198,25 @@ export default function LiquidGlassMobileMenu({ currentPath }: LiquidGlassMobile
                     className="flex items-center gap-3"
                   >
                     <div className={`w-12 h-12 bg-gradient-to-t ${item.gradient} rounded-xl flex items-center justify-center shadow-lg ${isActive ? 'ring-2 ring-white/50' : ''}`}>
-                      <Icon size={24} className='text-white' strokeWidth={2} />
+                      <Icon size={24} className='text-white' strokeWidth={2} aria-hidden='true' />
                     </div>
                     <span className="text-sm font-medium text-foreground dark:text-foreground-dark whitespace-nowrap">
                       {item.label}
                     </span>
+                    {item.badge && (
+                      <span className="px-1.5 h-5 flex items-center rounded-full bg-red-500 text-white text-[10px] font-semibold leading-none">
+                        {item.badge}
+                      </span>
+                    )}
                   </motion.div>
                 );
 
                 return isButton ? (
                   <button
                     key={item.id}
+                    type="button"
                     onClick={item.onClick}
-                    className="text-left"
+                    className="text-left rounded-xl focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
                   >
                     {content}
                   </button>
@@ -147,16 +224,60 @@ export default function LiquidGlassMobileMenu({ currentPath }: LiquidGlassMobile
                   <a
                     key={item.id}
                     href={item.href}
+                    {...(item.external && { target: '_blank', rel: 'noopener noreferrer' })}
                     onClick={() => setIsOpen(false)}
+                    aria-current={isActive ? 'page' : undefined}
+                    className="rounded-xl focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
                   >
                     {content}
                   </a>
                 );
               })}
+
+              {/* Theme selector */}
+              {isOpen && (
+                <motion.div
+                  key="theme"
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: -20 }}
+                  transition={{
+                    delay: allItems.length * 0.08,
+                    type: 'spring',
+                    stiffness: 300,
+                    damping: 25
+                  }}
+                  role="radiogroup"
+                  aria-label={t('nav.theme')}
+                  onKeyDown={handleThemeKeyDown}
+                  className="flex gap-1 p-1 rounded-xl bg-gradient-to-t from-gray-700 to-gray-500 shadow-lg"
+                >
+                  {themeOptions.map((option) => {
+                    const Icon = option.icon;
+                    const isSelected = preference === option.id;
+
+                    return (
+                      <button
+                        key={option.id}
+                        type="button"
+                        role="radio"
+                        aria-checked={isSelected}
+                        tabIndex={isSelected ? 0 : -1}
+                        data-theme-option={option.id}
+                        onClick={() => setPreference(option.id)}
+                        className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-2 rounded-lg text-xs font-medium text-white transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-white ${isSelected ? 'bg-white/25' : 'hover:bg-white/10'}`}
+                      >
+                        <Icon size={16} strokeWidth={2} aria-hidden="true" />
+                        {option.label}
+                      </button>
+                    );
+                  })}
+                </motion.div>
+              )}
             </AnimatePresence>
-          </div>
+          </nav>
         </GlassSurface>
       </motion.div>
-    </>
+    </MotionConfig>
   );
 }
@@ -0,0 +1,296 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { navigate } from 'astro:transitions/client';
+import { Search, FileText, Briefcase, CornerDownLeft } from 'lucide-react';
+import {
+  prepareIndex,
+  search,
+  SEARCH_OPEN_EVENT,
+  type HighlightSegment,
+  type PreparedDocument,
+  type SearchIndex,
+} from '../../utils/search';
+import { pickTranslations } from '../../utils/i18n';
+import { useTranslations } from '../../i18n/ui';
+import type { Locale } from '../../config/i18n';
+
+// Shared across mounts so the index is fetched at most once per page load
+let indexPromise: Promise<PreparedDocument[]> | null = null;
+
+function loadIndex(): Promise<PreparedDocument[]> {
+  if (!indexPromise) {
+    indexPromise = fetch('/search.json')
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load search index (${response.status})`);
+        return response.json() as Promise<SearchIndex>;
+      })
+      .then(prepareIndex)
+      .catch((error) => {
+        indexPromise = null;
+        throw error;
+      });
+  }
+  return indexPromise;
+}
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.highlight ? (
+          <mark key={i} className='bg-primary-100 dark:bg-primary-900/60 text-inherit rounded-sm px-0.5'>
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+interface SearchPaletteProps {
+  locale: Locale;
+}
+
+export default function SearchPalette({ locale }: SearchPaletteProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [documents, setDocuments] = useState<PreparedDocument[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  const t = useTranslations(locale);
+
+  // One version of each entry: the current locale's translation where there is one
+  const localizedDocuments = useMemo(
+    () =>
+      documents &&
+      pickTranslations(documents, locale, ({ document }) => ({ key: document.translationKey, lang: document.lang })),
+    [documents, locale]
+  );
+
+  const results = useMemo(
+    () => (localizedDocuments && query.trim() ? search(localizedDocuments, query) : []),
+    [localizedDocuments, query]
+  );
+
+  // Open from the dock/mobile menu, Cmd/Ctrl+K or "/"
+  useEffect(() => {
+    const open = () => setIsOpen(true);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      const isTyping = target?.closest('input, textarea, select, [contenteditable="true"]');
+
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsOpen((open) => !open);
+      } else if (e.key === '/' && !isTyping) {
+        e.preventDefault();
+        setIsOpen(true);
+      }
+    };
+
+    window.addEventListener(SEARCH_OPEN_EVENT, open);
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener(SEARCH_OPEN_EVENT, open);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  // Load the index lazily the first time the palette opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    inputRef.current?.focus();
+
+    if (!documents) {
+      loadIndex()
+        .then((prepared) => {
+          setDocuments(prepared);
+          setError(null);
+        })
+        .catch(() => setError(t('search.unavailable')));
+    }
+  }, [isOpen, documents]);
+
+  // While open: trap Tab inside the dialog and hand focus back to the trigger on close
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const dialog = dialogRef.current;
+    const trigger = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const getFocusable = () =>
+      Array.from(dialog?.querySelectorAll<HTMLElement>('input, a[href], button:not([disabled])') ?? [])
+        .filter((element) => element.tabIndex >= 0);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab') return;
+
+      const focusable = getFocusable();
+      if (focusable.length === 0) return;
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+
+      if (e.shiftKey && (document.activeElement === first || !dialog?.contains(document.activeElement))) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (document.activeElement === last || !dialog?.contains(document.activeElement))) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+
+      // Skipped after opening a result, when the trigger may have been swapped out
+      const active = document.activeElement;
+      if (trigger?.isConnected && (!active || active === document.body || dialog?.contains(active))) {
+        trigger.focus();
+      }
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      // The palette persists across view transitions, so close it before navigating
+      close();
+      navigate(results[activeIndex].document.url);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className='fixed inset-0 z-[60] bg-black/50 flex items-start justify-center px-4 pt-24'
+          onClick={close}
+        >
+          <motion.div
+            initial={{ opacity: 0, y: -16, scale: 0.98 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -16, scale: 0.98 }}
+            transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+            ref={dialogRef}
+            onClick={(e) => e.stopPropagation()}
+            role='dialog'
+            aria-modal='true'
+            aria-label={t('nav.search')}
+            className='w-full max-w-xl overflow-hidden rounded-xl border border-border dark:border-border-dark bg-card dark:bg-card-dark shadow-2xl'
+          >
+            <div className='flex items-center gap-3 px-4 border-b border-border dark:border-border-dark'>
+              <Search size={20} className='text-muted-foreground dark:text-muted-foreground-dark shrink-0' />
+              <input
+                ref={inputRef}
+                type='search'
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={handleInputKeyDown}
+                placeholder={t('search.placeholder')}
+                aria-label={t('search.label')}
+                aria-controls='search-results'
+                aria-activedescendant={results[activeIndex] ? `search-result-${activeIndex}` : undefined}
+                className='w-full py-4 bg-transparent text-foreground dark:text-foreground-dark placeholder:text-muted-foreground dark:placeholder:text-muted-foreground-dark outline-none'
+              />
+              <kbd className='hidden sm:inline-block px-1.5 py-0.5 text-xs rounded border border-border dark:border-border-dark text-muted-foreground dark:text-muted-foreground-dark'>
+                Esc
+              </kbd>
+            </div>
+
+            <div className='max-h-[60vh] overflow-y-auto'>
+              {error && (
+                <p className='px-4 py-8 text-center text-sm text-muted-foreground dark:text-muted-foreground-dark'>
+                  {error}
+                </p>
+              )}
+
+              {!error && query.trim() && documents && results.length === 0 && (
+                <p className='px-4 py-8 text-center text-sm text-muted-foreground dark:text-muted-foreground-dark'>
+                  {t('search.noResults', { query })}
+                </p>
+              )}
+
+              {results.length > 0 && (
+                <ul ref={listRef} id='search-results' role='listbox' className='p-2'>
+                  {results.map((result, i) => {
+                    const Icon = result.document.collection === 'blog' ? FileText : Briefcase;
+                    const isActive = i === activeIndex;
+
+                    return (
+                      <li
+                        key={result.document.id}
+                        id={`search-result-${i}`}
+                        data-index={i}
+                        role='option'
+                        aria-selected={isActive}
+                      >
+                        <a
+                          href={result.document.url}
+                          onClick={close}
+                          onMouseEnter={() => setActiveIndex(i)}
+                          className={`flex items-start gap-3 p-3 rounded-lg transition-colors ${
+                            isActive ? 'bg-primary-50 dark:bg-primary-950/40' : ''
+                          }`}
+                        >
+                          <Icon size={18} className='mt-0.5 shrink-0 text-primary-600 dark:text-primary-400' />
+                          <div className='min-w-0 flex-1'>
+                            <div className='font-medium text-foreground dark:text-foreground-dark'>
+                              <Highlighted segments={result.title} />
+                            </div>
+                            <p className='mt-1 text-sm text-muted-foreground dark:text-muted-foreground-dark line-clamp-2'>
+                              <Highlighted segments={result.snippet} />
+                            </p>
+                          </div>
+                          {isActive && (
+                            <CornerDownLeft size={16} className='mt-1 shrink-0 text-muted-foreground dark:text-muted-foreground-dark' />
+                          )}
+                        </a>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * Tunable parameters of a glass surface (see components/navigation/GlassSurface.tsx)
+ */
+export interface GlassParams {
+  borderRadius?: number;
+  borderWidth?: number;
+  brightness?: number; // Lightness of the displacement map center (0-100)
+  opacity?: number;
+  blur?: number; // Edge blur of the displacement map; the static GlassPanel uses it for the backdrop blur
+  displace?: number;
+  backgroundOpacity?: number;
+  saturation?: number;
+  distortionScale?: number;
+  redOffset?: number;
+  greenOffset?: number;
+  blueOffset?: number;
+  useFallback?: boolean; // Skip the SVG filter and use the CSS-only frosted look
+}
+
+export type GlassPresetName = 'dock' | 'pill' | 'panel' | 'subtle';
+
+export type GlassPreset = Record<'light' | 'dark', GlassParams>;
+
+export const GLASS_PRESET_NAMES: GlassPresetName[] = ['dock', 'pill', 'panel', 'subtle'];
+
+// Light and dark parameter sets for each preset
+export const GLASS_PRESETS: Record<GlassPresetName, GlassPreset> = {
+  // Desktop dock: strong refraction
+  dock: {
+    light: { borderRadius: 16, displace: 1, distortionScale: -180, backgroundOpacity: 0.33, brightness: 50, opacity: 0.9 },
+    dark: { borderRadius: 16, displace: 1, distortionScale: -180, backgroundOpacity: 0.4, brightness: 45, opacity: 0.9 },
+  },
+  // Round buttons, e.g. the mobile menu toggle
+  pill: {
+    light: { borderRadius: 28, displace: 1, distortionScale: -180, backgroundOpacity: 0.33, brightness: 50, opacity: 0.9 },
+    dark: { borderRadius: 28, displace: 1, distortionScale: -180, backgroundOpacity: 0.4, brightness: 45, opacity: 0.9 },
+  },
+  // Larger overlays such as the mobile menu; the SVG filter is too costly at that size
+  panel: {
+    light: { borderRadius: 16, displace: 1, distortionScale: -180, backgroundOpacity: 0.33, brightness: 50, opacity: 0.9, useFallback: true },
+    dark: { borderRadius: 16, displace: 1, distortionScale: -180, backgroundOpacity: 0.4, brightness: 45, opacity: 0.9, useFallback: true },
+  },
+  // Quiet frosted background for content-area panels (cards, table of contents)
+  subtle: {
+    light: { borderRadius: 12, backgroundOpacity: 0.5, blur: 8, saturation: 1.4, useFallback: true },
+    dark: { borderRadius: 12, backgroundOpacity: 0.3, blur: 8, saturation: 1.4, useFallback: true },
+  },
+};
@@ -0,0 +1,19 @@
+// Locales the site is published in; every page lives under /[locale]/
+export const LOCALES = ['en', 'de'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+// Locale of the root URL redirect, the root feed aliases and untagged content
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/**
+ * Per-locale settings
+ */
+export const LOCALE_INFO: Record<Locale, {
+  label: string; // Name of the language in that language, for the language switcher
+  intl: string; // BCP 47 tag for Intl formatters, <html lang> and hreflang
+  ogLocale: string; // og:locale value
+}> = {
+  en: { label: 'English', intl: 'en-US', ogLocale: 'en_US' },
+  de: { label: 'Deutsch', intl: 'de-DE', ogLocale: 'de_DE' },
+};
@@ -1,4 +1,4 @@
-import { Home, User, FileText, Briefcase, Mail, type LucideIcon } from 'lucide-react';
+import { Home, User, FileText, Briefcase, Mail, Rss, FolderGit2, type LucideIcon } from 'lucide-react';
 
 export const SITE = {
   title: 'Jet - Personal Website',
@@ -15,17 +15,68 @@ export const SOCIAL_LINKS = {
   ssrn: 'https://ssrn.com/author=your-id', // TODO: Update with your SSRN author page
 } as const;
 
-export const NAV_ITEMS = [
-  { id: 'home', label: 'Home', href: '/', icon: Home },
-  { id: 'about', label: 'About', href: '/about', icon: User },
-  { id: 'blog', label: 'Blog', href: '/blog', icon: FileText },
-  { id: 'works', label: 'Works', href: '/works', icon: Briefcase },
-  { id: 'contact', label: 'Contact', href: '/contact', icon: Mail },
-] as const;
+/**
+ * Check whether a social link is still the template's placeholder
+ * Placeholder links are hidden everywhere until a real URL is set.
+ */
+export function isPlaceholderLink(url: string): boolean {
+  return !url || url.includes('yourusername') || url.includes('your-id');
+}
 
+// Variant of the generated social cards used in og:image ('light' or 'dark')
+export const OG_IMAGE_THEME: 'light' | 'dark' = 'light';
+
+// Number of entries per page on paginated listing pages
+export const POSTS_PER_PAGE = 10;
+
+// Longest meta description kept intact; longer ones are truncated in the page head
+export const DESCRIPTION_MAX_LENGTH = 160;
+
+/**
+ * An entry in the dock (desktop) and the mobile menu
+ */
 export type NavItem = {
   id: string;
   label: string;
   href: string;
   icon: LucideIcon;
+  gradient: string; // Tailwind gradient stops for the icon tile, e.g. 'from-blue-600 to-blue-400'
+  group?: 'primary' | 'secondary'; // Secondary items sit after the divider (default: 'primary')
+  order?: number; // Lower comes first within a group (default: 0, ties keep declaration order)
+  external?: boolean; // Opens in a new tab and is never marked active
+  badge?: string; // Short text shown on the icon, e.g. 'New'
+  hiddenOnMobile?: boolean;
 };
+
+// Navigation shared by the dock and the mobile menu (see utils/navigation.ts)
+export const NAV_ITEMS: NavItem[] = [
+  { id: 'home', label: 'Home', href: '/', icon: Home, gradient: 'from-blue-600 to-blue-400' },
+  { id: 'about', label: 'About', href: '/about', icon: User, gradient: 'from-purple-600 to-purple-400' },
+  { id: 'blog', label: 'Blog', href: '/blog', icon: FileText, gradient: 'from-green-600 to-green-400' },
+  { id: 'works', label: 'Works', href: '/works', icon: Briefcase, gradient: 'from-orange-600 to-orange-400' },
+  { id: 'contact', label: 'Contact', href: '/contact', icon: Mail, gradient: 'from-red-600 to-red-400' },
+  {
+    id: 'rss',
+    label: 'RSS Feed',
+    href: '/rss.xml',
+    icon: Rss,
+    gradient: 'from-amber-600 to-amber-400',
+    group: 'secondary',
+    external: true,
+    hiddenOnMobile: true,
+  },
+  // Shown once SOCIAL_LINKS.github is set
+  ...(isPlaceholderLink(SOCIAL_LINKS.github)
+    ? []
+    : [
+        {
+          id: 'github',
+          label: 'GitHub',
+          href: SOCIAL_LINKS.github,
+          icon: FolderGit2,
+          gradient: 'from-neutral-800 to-neutral-600',
+          group: 'secondary',
+          external: true,
+        } satisfies NavItem,
+      ]),
+];
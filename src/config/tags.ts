@@ -0,0 +1,118 @@
+import type { Locale } from './i18n';
+
+/**
+ * A canonical tag
+ * Frontmatter may use the name, the slug or any alias, in any capitalization;
+ * all of them count as this tag and link to its page.
+ */
+export interface TagDefinition {
+  name: string; // Display name, e.g. 'Web Development'
+  slug: string; // URL segment, e.g. /en/blog/tags/web-development
+  description: Record<Locale, string>; // Shown on the tag's page
+  aliases?: string[]; // Other spellings, e.g. 'webdev'
+}
+
+// Every tag used in posts and works; tags missing here are reported by `npm run lint:content`
+export const TAGS: TagDefinition[] = [
+  {
+    name: 'AI',
+    slug: 'ai',
+    description: {
+      en: 'Artificial intelligence: where it stands, where it is heading and what it means for us.',
+      de: 'Künstliche Intelligenz: wo sie steht, wohin sie sich entwickelt und was das für uns bedeutet.',
+    },
+    aliases: ['artificial-intelligence', 'KI'],
+  },
+  {
+    name: 'ASI',
+    slug: 'asi',
+    description: {
+      en: 'Artificial superintelligence and how to prepare for it.',
+      de: 'Künstliche Superintelligenz und wie wir uns darauf vorbereiten.',
+    },
+    aliases: ['superintelligence'],
+  },
+  {
+    name: 'Astro',
+    slug: 'astro',
+    description: {
+      en: 'Building fast, content-focused websites with the Astro framework.',
+      de: 'Schnelle, inhaltsorientierte Websites mit dem Astro-Framework.',
+    },
+  },
+  {
+    name: 'Future',
+    slug: 'future',
+    description: {
+      en: 'Where technology and society might go next.',
+      de: 'Wohin sich Technologie und Gesellschaft entwickeln könnten.',
+    },
+  },
+  {
+    name: 'Governance',
+    slug: 'governance',
+    description: {
+      en: 'Policy, regulation and oversight of emerging technology.',
+      de: 'Politik, Regulierung und Aufsicht über neue Technologien.',
+    },
+    aliases: ['policy'],
+  },
+  {
+    name: 'Introduction',
+    slug: 'introduction',
+    description: {
+      en: 'Getting started: overviews and first steps.',
+      de: 'Der Einstieg: Überblicke und erste Schritte.',
+    },
+  },
+  {
+    name: 'JavaScript',
+    slug: 'javascript',
+    description: {
+      en: 'The language of the web, from the browser to the build.',
+      de: 'Die Sprache des Webs, vom Browser bis zum Build.',
+    },
+    aliases: ['js'],
+  },
+  {
+    name: 'Meta',
+    slug: 'meta',
+    description: {
+      en: 'Posts about this site and blog.',
+      de: 'Beiträge über diese Website und diesen Blog.',
+    },
+  },
+  {
+    name: 'Performance',
+    slug: 'performance',
+    description: {
+      en: 'Making websites and software fast.',
+      de: 'Websites und Software schnell machen.',
+    },
+  },
+  {
+    name: 'Research',
+    slug: 'research',
+    description: {
+      en: 'Findings, papers and notes from ongoing research.',
+      de: 'Ergebnisse, Paper und Notizen aus laufender Forschung.',
+    },
+  },
+  {
+    name: 'Web Development',
+    slug: 'web-development',
+    description: {
+      en: 'Building for the web: frameworks, tooling and practice.',
+      de: 'Entwicklung für das Web: Frameworks, Werkzeuge und Praxis.',
+    },
+    aliases: ['webdev'],
+  },
+  {
+    name: 'Welcome',
+    slug: 'welcome',
+    description: {
+      en: 'Hellos and introductions.',
+      de: 'Begrüßungen und Vorstellungen.',
+    },
+  },
+];
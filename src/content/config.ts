@@ -1,4 +1,22 @@
 import { defineCollection, z } from 'astro:content';
+import { DEFAULT_LOCALE, LOCALES } from '../config/i18n';
+
+// Work categories, each with its own archive page under /works/type/[type]
+export const WORK_TYPES = ['research', 'publication', 'talk', 'project', 'other'] as const;
+
+export type WorkType = (typeof WORK_TYPES)[number];
+
+// Review status of a publication
+export const PUBLICATION_STATUSES = ['preprint', 'accepted', 'published'] as const;
+
+export type PublicationStatus = (typeof PUBLICATION_STATUSES)[number];
+
+// Language of an entry; translations of the same entry share a translationKey
+// (defaulting to the slug, so the original only needs `lang` on its translations)
+const localeFields = {
+  lang: z.enum(LOCALES).default(DEFAULT_LOCALE),
+  translationKey: z.string().optional(),
+};
 
 const blogCollection = defineCollection({
   type: 'content',
@@ -10,6 +28,10 @@ const blogCollection = defineCollection({
     author: z.string().default('Jet'),
     tags: z.array(z.string()).default([]),
     draft: z.boolean().default(false),
+    // Multi-part posts: parts sharing a series name are linked in seriesOrder
+    series: z.string().optional(),
+    seriesOrder: z.number().int().positive().optional(),
+    ...localeFields,
     image: z.object({
       url: z.string(),
       alt: z.string(),
@@ -17,27 +39,75 @@ const blogCollection = defineCollection({
   }),
 });
 
+// Fields shared by every kind of work
+const workBase = z.object({
+  title: z.string(),
+  description: z.string(),
+  date: z.coerce.date(),
+  tags: z.array(z.string()).default([]),
+  featured: z.boolean().default(false),
+  links: z.array(z.object({
+    label: z.string(),
+    url: z.string(),
+  })).optional(),
+  ...localeFields,
+});
+
+// Structured metadata for the Cite widget and .bib/.ris/.json exports
+// Authors are written "Family, Given" or "Given Family"; year defaults to the work date
+const citationSchema = z.object({
+  authors: z.array(z.string()).min(1),
+  year: z.number().int().optional(),
+  venue: z.string().optional(),
+  publisher: z.string().optional(),
+  doi: z.string().optional(),
+  ssrnId: z.string().optional(),
+  url: z.string().url().optional(),
+});
+
+// Each work type only accepts its own fields; strict objects make
+// invalid combinations (e.g. `technologies` on a talk) fail the build
 const worksCollection = defineCollection({
   type: 'content',
-  schema: z.object({
-    title: z.string(),
-    description: z.string(),
-    type: z.enum(['research', 'project', 'other']),
-    date: z.coerce.date(),
-    tags: z.array(z.string()).default([]),
-    featured: z.boolean().default(false),
-    links: z.array(z.object({
-      label: z.string(),
-      url: z.string(),
-    })).optional(),
-    // For research papers
-    venue: z.string().optional(),
-    abstract: z.string().optional(),
-    // For projects
-    technologies: z.array(z.string()).optional(),
-    repository: z.string().optional(),
-    demo: z.string().optional(),
-  }),
+  schema: z.discriminatedUnion('type', [
+    // Research papers and whitepapers
+    workBase.extend({
+      type: z.literal('research'),
+      venue: z.string().optional(),
+      abstract: z.string().optional(),
+      pdf: z.string().optional(),
+      citation: citationSchema.optional(),
+    }).strict(),
+    // Papers going through (or through with) peer review
+    workBase.extend({
+      type: z.literal('publication'),
+      status: z.enum(PUBLICATION_STATUSES),
+      venue: z.string().optional(),
+      abstract: z.string().optional(),
+      pdf: z.string().optional(),
+      coAuthors: z.array(z.string()).optional(),
+      citation: citationSchema.optional(),
+    }).strict(),
+    // Conference talks, meetups and guest lectures
+    workBase.extend({
+      type: z.literal('talk'),
+      event: z.string(),
+      location: z.string().optional(),
+      slides: z.string().url().optional(),
+      video: z.string().url().optional(),
+      coAuthors: z.array(z.string()).optional(),
+    }).strict(),
+    // Software projects
+    workBase.extend({
+      type: z.literal('project'),
+      technologies: z.array(z.string()).optional(),
+      repository: z.string().optional(),
+      demo: z.string().optional(),
+    }).strict(),
+    workBase.extend({
+      type: z.literal('other'),
+    }).strict(),
+  ]),
 });
 
 export const collections = {
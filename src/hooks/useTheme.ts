@@ -1,44 +1,141 @@
-import { useEffect, useState } from 'react';
+import { useSyncExternalStore } from 'react';
+
+export type Theme = 'light' | 'dark';
+
+// What the visitor picked; 'system' follows the OS color scheme
+export type ThemePreference = Theme | 'system';
+
+export const THEME_PREFERENCES: ThemePreference[] = ['light', 'dark', 'system'];
+
+// Must match the key read by ThemeScript.astro
+const STORAGE_KEY = 'theme';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+interface ThemeState {
+  preference: ThemePreference;
+  theme: Theme;
+}
+
+// Snapshot used during SSR and before the store is first read in the browser
+const SERVER_STATE: ThemeState = { preference: 'system', theme: 'light' };
+
+let state: ThemeState | null = null;
+const listeners = new Set<() => void>();
+
+function isPreference(value: unknown): value is ThemePreference {
+  return THEME_PREFERENCES.includes(value as ThemePreference);
+}
+
+function readPreference(): ThemePreference {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isPreference(stored) ? stored : 'system';
+  } catch {
+    // Storage can be unavailable (private mode, blocked cookies)
+    return 'system';
+  }
+}
+
+function resolveTheme(preference: ThemePreference): Theme {
+  if (preference !== 'system') return preference;
+  return window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light';
+}
+
+function applyTheme(theme: Theme) {
+  document.documentElement.classList.toggle('dark', theme === 'dark');
+}
+
+/**
+ * Recompute the resolved theme, update the html class and notify subscribers
+ */
+function update(preference: ThemePreference) {
+  const theme = resolveTheme(preference);
+  applyTheme(theme);
+
+  if (state?.preference === preference && state.theme === theme) return;
+  state = { preference, theme };
+  listeners.forEach((listener) => listener());
+}
+
+function handleSystemChange() {
+  if (state?.preference === 'system') update('system');
+}
+
+function handleStorage(event: StorageEvent) {
+  // Another tab changed the preference (a null key means storage was cleared)
+  if (event.key === STORAGE_KEY || event.key === null) update(readPreference());
+}
+
+function handleAfterSwap() {
+  // The incoming document may carry a stale class; keep it in line with the store
+  if (state) applyTheme(state.theme);
+}
+
+// Browser listeners are attached once, when the first component subscribes
+function subscribe(listener: () => void) {
+  if (listeners.size === 0) {
+    window.matchMedia(DARK_QUERY).addEventListener('change', handleSystemChange);
+    window.addEventListener('storage', handleStorage);
+    document.addEventListener('astro:after-swap', handleAfterSwap);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.matchMedia(DARK_QUERY).removeEventListener('change', handleSystemChange);
+      window.removeEventListener('storage', handleStorage);
+      document.removeEventListener('astro:after-swap', handleAfterSwap);
+    }
+  };
+}
+
+function getSnapshot(): ThemeState {
+  if (!state) {
+    const preference = readPreference();
+    state = { preference, theme: resolveTheme(preference) };
+  }
+  return state;
+}
+
+function getServerSnapshot(): ThemeState {
+  return SERVER_STATE;
+}
+
+/**
+ * Store a new theme preference and apply it to every open tab
+ * @param preference - 'light', 'dark' or 'system'
+ */
+export function setThemePreference(preference: ThemePreference) {
+  try {
+    if (preference === 'system') {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, preference);
+    }
+  } catch {
+    // Still apply the preference for this page
+  }
+  update(preference);
+}
 
 /**
- * Custom hook for full theme management (read + toggle)
+ * Custom hook for full theme management (read + change)
  * Use this in components that need to change the theme (dock, mobile menu, etc.)
  *
- * @returns Object with current theme and toggle function
+ * @returns Object with the stored preference, the resolved theme, a setter,
+ * and a function that cycles light → dark → system
  */
 export function useTheme() {
-  const [theme, setTheme] = useState<'light' | 'dark'>('light');
-
-  useEffect(() => {
-    const checkTheme = () => {
-      const isDark = document.documentElement.classList.contains('dark');
-      setTheme(isDark ? 'dark' : 'light');
-    };
-
-    checkTheme();
-
-    const observer = new MutationObserver(checkTheme);
-    observer.observe(document.documentElement, {
-      attributes: true,
-      attributeFilter: ['class'],
-    });
-
-    return () => observer.disconnect();
-  }, []);
-
-  const toggleTheme = () => {
-    const newTheme = theme === 'dark' ? 'light' : 'dark';
-    if (newTheme === 'dark') {
-      document.documentElement.classList.add('dark');
-      localStorage.setItem('theme', 'dark');
-    } else {
-      document.documentElement.classList.remove('dark');
-      localStorage.setItem('theme', 'light');
-    }
-    setTheme(newTheme);
+  const { preference, theme } = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  const cyclePreference = () => {
+    const next = THEME_PREFERENCES[(THEME_PREFERENCES.indexOf(preference) + 1) % THEME_PREFERENCES.length];
+    setThemePreference(next);
   };
 
-  return { theme, toggleTheme };
+  return { preference, theme, setPreference: setThemePreference, cyclePreference };
 }
 
 /**
@@ -48,25 +145,5 @@ export function useTheme() {
  * @returns Boolean indicating if dark mode is active
  */
 export function useDarkMode(): boolean {
-  const [isDark, setIsDark] = useState(false);
-
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-
-    const checkTheme = () => {
-      setIsDark(document.documentElement.classList.contains('dark'));
-    };
-
-    checkTheme();
-
-    const observer = new MutationObserver(checkTheme);
-    observer.observe(document.documentElement, {
-      attributes: true,
-      attributeFilter: ['class'],
-    });
-
-    return () => observer.disconnect();
-  }, []);
-
-  return isDark;
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot).theme === 'dark';
 }
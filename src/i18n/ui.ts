@@ -0,0 +1,608 @@
+import { DEFAULT_LOCALE, LOCALE_INFO, type Locale } from '../config/i18n';
+
+// English strings; every other locale must provide the same keys.
+// Counted strings come in `.one`/`.other` pairs and are picked with Intl.PluralRules.
+const en = {
+  // Navigation (dock, mobile menu, noscript fallback)
+  'nav.home': 'Home',
+  'nav.about': 'About',
+  'nav.blog': 'Blog',
+  'nav.works': 'Works',
+  'nav.contact': 'Contact',
+  'nav.rss': 'RSS Feed',
+  'nav.github': 'GitHub',
+  'nav.main': 'Main',
+  'nav.toolbar': 'Site navigation',
+  'nav.menu': 'Menu',
+  'nav.openMenu': 'Open menu',
+  'nav.closeMenu': 'Close menu',
+  'nav.search': 'Search',
+  'nav.theme': 'Theme',
+  'nav.themeValue': 'Theme: {theme}',
+  'nav.language': 'Language',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.system': 'System',
+
+  // Search palette
+  'search.placeholder': 'Search posts and works...',
+  'search.label': 'Search posts and works',
+  'search.unavailable': 'Search is unavailable right now.',
+  'search.noResults': 'No results for "{query}".',
+
+  // Footer
+  'footer.quickLinks': 'Quick Links',
+  'footer.connect': 'Connect',
+  'footer.socialSoon': 'Social links coming soon',
+  'footer.rights': '© {year} {author}. All rights reserved.',
+
+  // Home
+  'home.welcome': 'Welcome to {site}',
+  'home.aboutMe': 'About Me',
+  'home.getInTouch': 'Get in Touch',
+  'home.latestArticles': 'Latest Articles',
+  'home.featuredWorks': 'Featured Works',
+  'home.viewAll': 'View All →',
+  'home.noPosts': 'No blog posts yet. Check back soon!',
+  'home.noFeaturedWorks': 'No featured works yet. Check back soon!',
+  'home.connectTitle': "Let's Connect",
+  'home.connectText': 'Interested in collaborating or have questions? Feel free to reach out!',
+  'home.contactMe': 'Contact Me',
+  'home.learnMore': 'Learn More',
+
+  // About
+  'about.title': 'About',
+  'about.description': "Learn more about me, my background, and what I'm passionate about.",
+  'about.heading': 'About Me',
+  'about.subtitle': 'Background, interests, and what drives my work',
+  'about.background': 'Background',
+  'about.bio1': "Welcome! I'm passionate about the intersection of technology, research, and innovation. My work focuses on exploring emerging technologies and their potential to shape our future.",
+  'about.bio2': 'Through this platform, I share my research, thoughts, and projects related to artificial intelligence, software development, and the broader implications of technological advancement.',
+  'about.interests': 'Interests & Expertise',
+  'about.researchAreas': 'Research Areas',
+  'about.research1': 'Artificial Intelligence & Machine Learning',
+  'about.research2': 'AI Safety & Alignment',
+  'about.research3': 'Future of Technology',
+  'about.research4': 'Technology Policy & Governance',
+  'about.skills': 'Technical Skills',
+  'about.skill1': 'Full-Stack Web Development',
+  'about.skill2': 'Modern JavaScript/TypeScript',
+  'about.skill3': 'Python & Data Science',
+  'about.skill4': 'System Architecture & Design',
+  'about.connectTitle': "Let's Connect",
+  'about.connectText': "I'm always interested in connecting with people working on interesting problems. Feel free to reach out through any of these platforms:",
+  'about.email': 'Email:',
+  'about.socialHint': 'Social links can be configured in the site configuration.',
+
+  // Contact
+  'contact.title': 'Contact',
+  'contact.description': 'Get in touch with me - email, social media, and professional links.',
+  'contact.heading': 'Get in Touch',
+  'contact.subtitle': "I'd love to hear from you. Here's how you can reach me.",
+  'contact.email': 'Email',
+  'contact.emailText': 'The best way to reach me for inquiries, collaborations, or just to say hello.',
+  'contact.sendEmail': 'Send Email',
+  'contact.social': 'Social Media',
+  'contact.socialText': 'Connect with me on social platforms',
+  'contact.professional': 'Professional Links',
+  'contact.professionalText': 'Find my research and professional profiles',
+  'contact.ssrn': 'Research papers and publications',
+  'contact.responseTime': 'Response Time',
+  'contact.responseText': 'I aim to respond to all messages within 2-3 business days. For urgent matters, please indicate that in your subject line.',
+  'contactForm.heading': 'Send a Message',
+  'contactForm.text': 'Write to me directly from this page.',
+  'contactForm.name': 'Name',
+  'contactForm.email': 'Email',
+  'contactForm.subject': 'Subject',
+  'contactForm.optional': '(optional)',
+  'contactForm.message': 'Message',
+  'contactForm.honeypot': 'Leave this field empty',
+  'contactForm.submit': 'Send Message',
+  'contactForm.sending': 'Sending…',
+  'contactForm.error.name': 'Please enter your name (up to 100 characters).',
+  'contactForm.error.email': 'Please enter a valid email address.',
+  'contactForm.error.subject': 'Please keep the subject under 150 characters.',
+  'contactForm.error.message': 'Please write a message of 10 to 5000 characters.',
+  'contactForm.status.sent': 'Thanks! Your message has been sent.',
+  'contactForm.status.invalid': 'Please check the highlighted fields.',
+  'contactForm.status.rate-limited': 'Too many messages. Please try again in a few minutes.',
+  'contactForm.status.failed': 'Your message could not be sent. Please try again later or email me directly.',
+  'newsletter.title': 'Newsletter',
+  'newsletter.description': 'Get new blog posts by email.',
+  'newsletter.heading': 'Subscribe to the Newsletter',
+  'newsletter.text': 'Get an email when new posts are published. No spam, unsubscribe at any time.',
+  'newsletter.email': 'Email address',
+  'newsletter.emailPlaceholder': 'you@example.com',
+  'newsletter.honeypot': 'Leave this field empty',
+  'newsletter.submit': 'Subscribe',
+  'newsletter.sending': 'Subscribing…',
+  'newsletter.unsubscribeHeading': 'Unsubscribe',
+  'newsletter.unsubscribeText': 'You will no longer receive new posts by email.',
+  'newsletter.unsubscribeSubmit': 'Unsubscribe',
+  'newsletter.status.pending': 'Almost done! Check your inbox and click the link to confirm your subscription.',
+  'newsletter.status.confirmed': 'Your subscription is confirmed. Thanks for subscribing!',
+  'newsletter.status.unsubscribed': 'You have been unsubscribed.',
+  'newsletter.status.expired': 'This link is invalid or has expired. Please subscribe again.',
+  'newsletter.status.invalid': 'Please enter a valid email address.',
+  'newsletter.status.rate-limited': 'Too many attempts. Please try again in a few minutes.',
+  'newsletter.status.failed': 'Something went wrong. Please try again later.',
+  'newsletter.confirmEmail.subject': 'Confirm your subscription to {site}',
+  'newsletter.confirmEmail.intro': 'Thanks for subscribing to {site}! Please confirm your email address to start receiving new posts.',
+  'newsletter.confirmEmail.button': 'Confirm subscription',
+  'newsletter.confirmEmail.ignore': "If you didn't subscribe, you can ignore this email.",
+  'newsletter.digest.subject.one': '{site}: {count} new post',
+  'newsletter.digest.subject.other': '{site}: {count} new posts',
+  'newsletter.digest.intro.one': 'A new post was published since the last email:',
+  'newsletter.digest.intro.other': '{count} new posts were published since the last email:',
+  'newsletter.digest.read': 'Read post',
+  'newsletter.digest.footer': 'You receive this email because you subscribed to {site}.',
+  'newsletter.digest.unsubscribe': 'Unsubscribe',
+
+  // Blog listing and posts
+  'blog.title': 'Blog',
+  'blog.description': 'Articles, tutorials, and thoughts on software development, AI, and technology.',
+  'blog.pageTitle': 'Blog - Page {page}',
+  'blog.posts.one': '{count} post',
+  'blog.posts.other': '{count} posts',
+  'blog.pageOf': 'Page {page} of {total}',
+  'blog.empty': 'No blog posts yet. Check back soon!',
+  'blog.browseByTag': 'Browse by tag',
+  'blog.browseByDate': 'Browse by date',
+  'blog.fullArchive': 'Full archive →',
+  'blog.back': '← Back to Blog',
+  'blog.by': 'By {author}',
+  'blog.updated': 'Updated: {date}',
+  'blog.readingTime.one': '{count} min read',
+  'blog.readingTime.other': '{count} min read',
+  'blog.draft': 'Draft',
+  'blog.scheduled': 'Scheduled',
+  'blog.draftNotice': 'This post is a draft and will not be published.',
+  'blog.scheduledNotice': 'This post goes live on {date}.',
+  'blog.previewNotice': 'It is excluded from feeds, search and the sitemap.',
+  'blog.postNavigation': 'Post navigation',
+  'blog.previous': 'Previous',
+  'blog.next': 'Next',
+  'blog.previousPart': 'Previous part',
+  'blog.nextPart': 'Next part',
+  'blog.toc': 'On this page',
+  'blog.tocLabel': 'Table of Contents',
+  'translations.available': 'Also available in:',
+
+  // Archive
+  'archive.title': 'Blog Archive',
+  'archive.heading': 'Archive',
+  'archive.description': 'Every blog post, grouped by year and month.',
+  'archive.back': '← Back to Archive',
+  'archive.yearTitle': 'Blog - {year}',
+  'archive.yearDescription.one': '{count} blog post published in {year}.',
+  'archive.yearDescription.other': '{count} blog posts published in {year}.',
+  'archive.years': 'Archive years',
+
+  // Series
+  'series.title': 'Series',
+  'series.description': 'Multi-part articles, best read in order.',
+  'series.parts.one': '{count} part',
+  'series.parts.other': '{count} parts',
+  'series.empty': 'No series yet. Check back soon!',
+  'series.all': '← All Series',
+  'series.pageTitle': 'Series: {name}',
+  'series.pageDescription': 'A {count}-part series.',
+  'series.partOf': 'Part {part} of {count} in the series',
+  'series.partOfSeries': 'Part of the series',
+
+  // Tags
+  'tags.title': 'Tags',
+  'tags.description': 'Browse blog posts by topic.',
+  'tags.empty': 'No tags yet. Check back soon!',
+  'tags.pageTitle': 'Posts tagged "{tag}"',
+  'tags.pageTitlePaged': 'Posts tagged "{tag}" - Page {page}',
+  'tags.heading': 'Posts tagged with "{tag}"',
+  'tags.pageDescription': 'Blog posts tagged with "{tag}"',
+  'tags.clear': 'Clear filter',
+  'tags.all': 'All tags',
+  'tags.rss': 'RSS feed for this tag',
+  'tags.count.one': '{count} post tagged with "{tag}"',
+  'tags.count.other': '{count} posts tagged with "{tag}"',
+
+  // Pagination
+  'pagination.label': 'Pagination',
+  'pagination.previous': '← Previous',
+  'pagination.next': 'Next →',
+  'pagination.page': 'Page {page}',
+
+  // Works
+  'works.title': 'Works',
+  'works.description': 'Research papers, projects, and other professional work.',
+  'works.bibliography': 'Papers in bibliography format →',
+  'works.back': '← Back to Works',
+  'works.typeTitle': 'Works - {type}',
+  'works.typeHeading': '{type} Works',
+  'works.featured': 'Featured',
+  'works.more': 'More Works',
+  'works.all': 'All Works',
+  'works.viewAll': 'View all works',
+  'works.count.one': '{count} work',
+  'works.count.other': '{count} works',
+  'works.countIn.one': '{count} work in the {type} category',
+  'works.countIn.other': '{count} works in the {type} category',
+  'works.none': 'No works found.',
+  'works.noneIn': 'No works found in the {type} category.',
+  'works.empty': 'No works yet. Check back soon!',
+  'works.emptyType': 'No {type} works found.',
+  'works.with': 'With {names}',
+  'works.technologies': 'Technologies',
+  'works.downloadPdf': 'Download PDF',
+  'works.viewSlides': 'View Slides',
+  'works.watchVideo': 'Watch Video',
+  'works.viewRepository': 'View Repository',
+  'works.liveDemo': 'Live Demo',
+  'works.feedDescription': 'Research papers, publications and projects.',
+  'workType.research': 'Research',
+  'workType.publication': 'Publication',
+  'workType.talk': 'Talk',
+  'workType.project': 'Project',
+  'workType.other': 'Other',
+  'workTab.all': 'All',
+  'workTab.research': 'Research',
+  'workTab.publication': 'Publications',
+  'workTab.talk': 'Talks',
+  'workTab.project': 'Projects',
+  'workTab.other': 'Other',
+  'workTypeDescription.research': 'Research papers and whitepapers',
+  'workTypeDescription.publication': 'Peer-reviewed publications, preprints and accepted papers',
+  'workTypeDescription.talk': 'Talks, presentations and lectures',
+  'workTypeDescription.project': 'Projects and applications',
+  'workTypeDescription.other': 'Other works',
+  'status.preprint': 'Preprint',
+  'status.accepted': 'Accepted',
+  'status.published': 'Published',
+
+  // Publications
+  'publications.title': 'Publications',
+  'publications.description': 'Research papers and publications, grouped by year.',
+  'publications.download': 'Download all as BibTeX',
+  'publications.status': 'Status',
+  'publications.venue': 'Venue',
+  'publications.all': 'All',
+  'publications.noMatch': 'No publications match these filters.',
+  'publications.empty': 'No publications yet. Check back soon!',
+
+  // Related content
+  'related.title': 'Related',
+  'related.blogPost': 'Blog post',
+  'related.work': 'Work',
+
+  // Citation widget on work pages
+  'cite.title': 'Cite this work',
+  'cite.style': 'Citation style',
+  'cite.copy': 'Copy {style}',
+  'cite.copied': 'Copied!',
+  'cite.copyFailed': 'Copy failed',
+  'cite.download': 'Download:',
+
+  // Code blocks
+  'code.copy': 'Copy',
+  'code.copyLabel': 'Copy code to clipboard',
+  'code.copied': 'Copied!',
+  'code.copyFailed': 'Copy failed',
+  'code.expand': 'Show all {count} lines',
+  'code.collapse': 'Show less',
+
+  // MDX components
+  'callout.note': 'Note',
+  'callout.tip': 'Tip',
+  'callout.warning': 'Warning',
+  'figure.label': 'Figure',
+  'sidenote.toggle': 'Toggle note',
+} as const;
+
+export type UIKey = keyof typeof en;
+
+// Base name of a counted string, e.g. 'blog.posts' for 'blog.posts.one'/'blog.posts.other'
+type PluralKey = UIKey extends infer K ? (K extends `${infer Base}.other` ? Base : never) : never;
+
+const de: Record<UIKey, string> = {
+  'nav.home': 'Start',
+  'nav.about': 'Über mich',
+  'nav.blog': 'Blog',
+  'nav.works': 'Arbeiten',
+  'nav.contact': 'Kontakt',
+  'nav.rss': 'RSS-Feed',
+  'nav.github': 'GitHub',
+  'nav.main': 'Hauptnavigation',
+  'nav.toolbar': 'Seitennavigation',
+  'nav.menu': 'Menü',
+  'nav.openMenu': 'Menü öffnen',
+  'nav.closeMenu': 'Menü schließen',
+  'nav.search': 'Suche',
+  'nav.theme': 'Design',
+  'nav.themeValue': 'Design: {theme}',
+  'nav.language': 'Sprache',
+  'theme.light': 'Hell',
+  'theme.dark': 'Dunkel',
+  'theme.system': 'System',
+
+  'search.placeholder': 'Beiträge und Arbeiten durchsuchen …',
+  'search.label': 'Beiträge und Arbeiten durchsuchen',
+  'search.unavailable': 'Die Suche ist gerade nicht verfügbar.',
+  'search.noResults': 'Keine Ergebnisse für „{query}“.',
+
+  'footer.quickLinks': 'Schnellzugriff',
+  'footer.connect': 'Vernetzen',
+  'footer.socialSoon': 'Social-Media-Links folgen in Kürze',
+  'footer.rights': '© {year} {author}. Alle Rechte vorbehalten.',
+
+  'home.welcome': 'Willkommen bei {site}',
+  'home.aboutMe': 'Über mich',
+  'home.getInTouch': 'Kontakt aufnehmen',
+  'home.latestArticles': 'Neueste Artikel',
+  'home.featuredWorks': 'Ausgewählte Arbeiten',
+  'home.viewAll': 'Alle anzeigen →',
+  'home.noPosts': 'Noch keine Blogbeiträge. Schau bald wieder vorbei!',
+  'home.noFeaturedWorks': 'Noch keine ausgewählten Arbeiten. Schau bald wieder vorbei!',
+  'home.connectTitle': 'Lass uns vernetzen',
+  'home.connectText': 'Interesse an einer Zusammenarbeit oder Fragen? Melde dich gerne!',
+  'home.contactMe': 'Kontakt',
+  'home.learnMore': 'Mehr erfahren',
+
+  'about.title': 'Über mich',
+  'about.description': 'Mehr über mich, meinen Hintergrund und das, was mich begeistert.',
+  'about.heading': 'Über mich',
+  'about.subtitle': 'Hintergrund, Interessen und was meine Arbeit antreibt',
+  'about.background': 'Hintergrund',
+  'about.bio1': 'Willkommen! Mich begeistert die Schnittstelle von Technologie, Forschung und Innovation. Meine Arbeit beschäftigt sich mit neuen Technologien und ihrem Potenzial, unsere Zukunft zu gestalten.',
+  'about.bio2': 'Hier teile ich Forschung, Gedanken und Projekte rund um künstliche Intelligenz, Softwareentwicklung und die weiteren Folgen des technologischen Fortschritts.',
+  'about.interests': 'Interessen & Kompetenzen',
+  'about.researchAreas': 'Forschungsgebiete',
+  'about.research1': 'Künstliche Intelligenz & Maschinelles Lernen',
+  'about.research2': 'KI-Sicherheit & Alignment',
+  'about.research3': 'Zukunft der Technologie',
+  'about.research4': 'Technologiepolitik & Governance',
+  'about.skills': 'Technische Fähigkeiten',
+  'about.skill1': 'Full-Stack-Webentwicklung',
+  'about.skill2': 'Modernes JavaScript/TypeScript',
+  'about.skill3': 'Python & Data Science',
+  'about.skill4': 'Systemarchitektur & -design',
+  'about.connectTitle': 'Lass uns vernetzen',
+  'about.connectText': 'Ich freue mich immer über Kontakt zu Menschen, die an spannenden Problemen arbeiten. Du erreichst mich über diese Plattformen:',
+  'about.email': 'E-Mail:',
+  'about.socialHint': 'Social-Media-Links lassen sich in der Seitenkonfiguration einstellen.',
+
+  'contact.title': 'Kontakt',
+  'contact.description': 'So erreichst du mich – per E-Mail, über soziale Medien und berufliche Profile.',
+  'contact.heading': 'Kontakt aufnehmen',
+  'contact.subtitle': 'Ich freue mich, von dir zu hören. So erreichst du mich.',
+  'contact.email': 'E-Mail',
+  'contact.emailText': 'Der beste Weg für Anfragen, Kooperationen oder einfach ein Hallo.',
+  'contact.sendEmail': 'E-Mail senden',
+  'contact.social': 'Soziale Medien',
+  'contact.socialText': 'Vernetze dich mit mir auf sozialen Plattformen',
+  'contact.professional': 'Berufliche Profile',
+  'contact.professionalText': 'Meine Forschung und beruflichen Profile',
+  'contact.ssrn': 'Forschungsarbeiten und Publikationen',
+  'contact.responseTime': 'Antwortzeit',
+  'contact.responseText': 'Ich antworte in der Regel innerhalb von 2–3 Werktagen. Bei dringenden Anliegen vermerke das bitte im Betreff.',
+  'contactForm.heading': 'Nachricht schreiben',
+  'contactForm.text': 'Schreib mir direkt über diese Seite.',
+  'contactForm.name': 'Name',
+  'contactForm.email': 'E-Mail',
+  'contactForm.subject': 'Betreff',
+  'contactForm.optional': '(optional)',
+  'contactForm.message': 'Nachricht',
+  'contactForm.honeypot': 'Dieses Feld bitte leer lassen',
+  'contactForm.submit': 'Nachricht senden',
+  'contactForm.sending': 'Wird gesendet…',
+  'contactForm.error.name': 'Bitte gib deinen Namen ein (bis zu 100 Zeichen).',
+  'contactForm.error.email': 'Bitte gib eine gültige E-Mail-Adresse ein.',
+  'contactForm.error.subject': 'Bitte halte den Betreff unter 150 Zeichen.',
+  'contactForm.error.message': 'Bitte schreib eine Nachricht mit 10 bis 5000 Zeichen.',
+  'contactForm.status.sent': 'Danke! Deine Nachricht wurde gesendet.',
+  'contactForm.status.invalid': 'Bitte prüfe die markierten Felder.',
+  'contactForm.status.rate-limited': 'Zu viele Nachrichten. Bitte versuch es in ein paar Minuten erneut.',
+  'contactForm.status.failed': 'Deine Nachricht konnte nicht gesendet werden. Bitte versuch es später erneut oder schreib mir direkt eine E-Mail.',
+  'newsletter.title': 'Newsletter',
+  'newsletter.description': 'Neue Blogbeiträge per E-Mail erhalten.',
+  'newsletter.heading': 'Newsletter abonnieren',
+  'newsletter.text': 'Erhalte eine E-Mail, wenn neue Beiträge erscheinen. Kein Spam, jederzeit abbestellbar.',
+  'newsletter.email': 'E-Mail-Adresse',
+  'newsletter.emailPlaceholder': 'du@beispiel.de',
+  'newsletter.honeypot': 'Dieses Feld bitte leer lassen',
+  'newsletter.submit': 'Abonnieren',
+  'newsletter.sending': 'Wird abonniert…',
+  'newsletter.unsubscribeHeading': 'Abbestellen',
+  'newsletter.unsubscribeText': 'Du erhältst dann keine neuen Beiträge mehr per E-Mail.',
+  'newsletter.unsubscribeSubmit': 'Abbestellen',
+  'newsletter.status.pending': 'Fast geschafft! Prüfe dein Postfach und klicke auf den Link, um dein Abonnement zu bestätigen.',
+  'newsletter.status.confirmed': 'Dein Abonnement ist bestätigt. Danke fürs Abonnieren!',
+  'newsletter.status.unsubscribed': 'Du hast den Newsletter abbestellt.',
+  'newsletter.status.expired': 'Dieser Link ist ungültig oder abgelaufen. Bitte abonniere erneut.',
+  'newsletter.status.invalid': 'Bitte gib eine gültige E-Mail-Adresse ein.',
+  'newsletter.status.rate-limited': 'Zu viele Versuche. Bitte versuch es in ein paar Minuten erneut.',
+  'newsletter.status.failed': 'Etwas ist schiefgelaufen. Bitte versuch es später erneut.',
+  'newsletter.confirmEmail.subject': 'Bestätige dein Abonnement von {site}',
+  'newsletter.confirmEmail.intro': 'Danke, dass du {site} abonniert hast! Bitte bestätige deine E-Mail-Adresse, um neue Beiträge zu erhalten.',
+  'newsletter.confirmEmail.button': 'Abonnement bestätigen',
+  'newsletter.confirmEmail.ignore': 'Wenn du dich nicht angemeldet hast, kannst du diese E-Mail ignorieren.',
+  'newsletter.digest.subject.one': '{site}: {count} neuer Beitrag',
+  'newsletter.digest.subject.other': '{site}: {count} neue Beiträge',
+  'newsletter.digest.intro.one': 'Seit der letzten E-Mail ist ein neuer Beitrag erschienen:',
+  'newsletter.digest.intro.other': 'Seit der letzten E-Mail sind {count} neue Beiträge erschienen:',
+  'newsletter.digest.read': 'Beitrag lesen',
+  'newsletter.digest.footer': 'Du erhältst diese E-Mail, weil du {site} abonniert hast.',
+  'newsletter.digest.unsubscribe': 'Abbestellen',
+
+  'blog.title': 'Blog',
+  'blog.description': 'Artikel, Tutorials und Gedanken zu Softwareentwicklung, KI und Technologie.',
+  'blog.pageTitle': 'Blog – Seite {page}',
+  'blog.posts.one': '{count} Beitrag',
+  'blog.posts.other': '{count} Beiträge',
+  'blog.pageOf': 'Seite {page} von {total}',
+  'blog.empty': 'Noch keine Blogbeiträge. Schau bald wieder vorbei!',
+  'blog.browseByTag': 'Nach Schlagwort',
+  'blog.browseByDate': 'Nach Datum',
+  'blog.fullArchive': 'Vollständiges Archiv →',
+  'blog.back': '← Zurück zum Blog',
+  'blog.by': 'Von {author}',
+  'blog.updated': 'Aktualisiert: {date}',
+  'blog.readingTime.one': '{count} Min. Lesezeit',
+  'blog.readingTime.other': '{count} Min. Lesezeit',
+  'blog.draft': 'Entwurf',
+  'blog.scheduled': 'Geplant',
+  'blog.draftNotice': 'Dieser Beitrag ist ein Entwurf und wird nicht veröffentlicht.',
+  'blog.scheduledNotice': 'Dieser Beitrag erscheint am {date}.',
+  'blog.previewNotice': 'Er ist von Feeds, Suche und Sitemap ausgeschlossen.',
+  'blog.postNavigation': 'Beitragsnavigation',
+  'blog.previous': 'Vorheriger',
+  'blog.next': 'Nächster',
+  'blog.previousPart': 'Vorheriger Teil',
+  'blog.nextPart': 'Nächster Teil',
+  'blog.toc': 'Auf dieser Seite',
+  'blog.tocLabel': 'Inhaltsverzeichnis',
+  'translations.available': 'Auch verfügbar auf:',
+
+  'archive.title': 'Blogarchiv',
+  'archive.heading': 'Archiv',
+  'archive.description': 'Alle Blogbeiträge, nach Jahr und Monat gruppiert.',
+  'archive.back': '← Zurück zum Archiv',
+  'archive.yearTitle': 'Blog – {year}',
+  'archive.yearDescription.one': '{count} Blogbeitrag aus dem Jahr {year}.',
+  'archive.yearDescription.other': '{count} Blogbeiträge aus dem Jahr {year}.',
+  'archive.years': 'Archivjahre',
+
+  'series.title': 'Serien',
+  'series.description': 'Mehrteilige Artikel, am besten der Reihe nach gelesen.',
+  'series.parts.one': '{count} Teil',
+  'series.parts.other': '{count} Teile',
+  'series.empty': 'Noch keine Serien. Schau bald wieder vorbei!',
+  'series.all': '← Alle Serien',
+  'series.pageTitle': 'Serie: {name}',
+  'series.pageDescription': 'Eine Serie in {count} Teilen.',
+  'series.partOf': 'Teil {part} von {count} der Serie',
+  'series.partOfSeries': 'Teil der Serie',
+
+  'tags.title': 'Schlagwörter',
+  'tags.description': 'Blogbeiträge nach Thema durchsuchen.',
+  'tags.empty': 'Noch keine Schlagwörter. Schau bald wieder vorbei!',
+  'tags.pageTitle': 'Beiträge zu „{tag}“',
+  'tags.pageTitlePaged': 'Beiträge zu „{tag}“ – Seite {page}',
+  'tags.heading': 'Beiträge mit dem Schlagwort „{tag}“',
+  'tags.pageDescription': 'Blogbeiträge mit dem Schlagwort „{tag}“',
+  'tags.clear': 'Filter entfernen',
+  'tags.all': 'Alle Schlagwörter',
+  'tags.rss': 'RSS-Feed für dieses Schlagwort',
+  'tags.count.one': '{count} Beitrag mit dem Schlagwort „{tag}“',
+  'tags.count.other': '{count} Beiträge mit dem Schlagwort „{tag}“',
+
+  'pagination.label': 'Seitennavigation',
+  'pagination.previous': '← Zurück',
+  'pagination.next': 'Weiter →',
+  'pagination.page': 'Seite {page}',
+
+  'works.title': 'Arbeiten',
+  'works.description': 'Forschungsarbeiten, Projekte und weitere berufliche Arbeiten.',
+  'works.bibliography': 'Publikationen als Literaturliste →',
+  'works.back': '← Zurück zu den Arbeiten',
+  'works.typeTitle': 'Arbeiten – {type}',
+  'works.typeHeading': 'Arbeiten: {type}',
+  'works.featured': 'Hervorgehoben',
+  'works.more': 'Weitere Arbeiten',
+  'works.all': 'Alle Arbeiten',
+  'works.viewAll': 'Alle Arbeiten anzeigen',
+  'works.count.one': '{count} Arbeit',
+  'works.count.other': '{count} Arbeiten',
+  'works.countIn.one': '{count} Arbeit in der Kategorie {type}',
+  'works.countIn.other': '{count} Arbeiten in der Kategorie {type}',
+  'works.none': 'Keine Arbeiten gefunden.',
+  'works.noneIn': 'Keine Arbeiten in der Kategorie {type} gefunden.',
+  'works.empty': 'Noch keine Arbeiten. Schau bald wieder vorbei!',
+  'works.emptyType': 'Keine Arbeiten der Kategorie {type} gefunden.',
+  'works.with': 'Mit {names}',
+  'works.technologies': 'Technologien',
+  'works.downloadPdf': 'PDF herunterladen',
+  'works.viewSlides': 'Folien ansehen',
+  'works.watchVideo': 'Video ansehen',
+  'works.viewRepository': 'Repository ansehen',
+  'works.liveDemo': 'Live-Demo',
+  'works.feedDescription': 'Forschungsarbeiten, Publikationen und Projekte.',
+  'workType.research': 'Forschung',
+  'workType.publication': 'Publikation',
+  'workType.talk': 'Vortrag',
+  'workType.project': 'Projekt',
+  'workType.other': 'Sonstiges',
+  'workTab.all': 'Alle',
+  'workTab.research': 'Forschung',
+  'workTab.publication': 'Publikationen',
+  'workTab.talk': 'Vorträge',
+  'workTab.project': 'Projekte',
+  'workTab.other': 'Sonstiges',
+  'workTypeDescription.research': 'Forschungsarbeiten und Whitepaper',
+  'workTypeDescription.publication': 'Begutachtete Publikationen, Preprints und angenommene Artikel',
+  'workTypeDescription.talk': 'Vorträge, Präsentationen und Vorlesungen',
+  'workTypeDescription.project': 'Projekte und Anwendungen',
+  'workTypeDescription.other': 'Sonstige Arbeiten',
+  'status.preprint': 'Preprint',
+  'status.accepted': 'Angenommen',
+  'status.published': 'Veröffentlicht',
+
+  'publications.title': 'Publikationen',
+  'publications.description': 'Forschungsarbeiten und Publikationen, nach Jahr gruppiert.',
+  'publications.download': 'Alle als BibTeX herunterladen',
+  'publications.status': 'Status',
+  'publications.venue': 'Erschienen in',
+  'publications.all': 'Alle',
+  'publications.noMatch': 'Keine Publikationen entsprechen diesen Filtern.',
+  'publications.empty': 'Noch keine Publikationen. Schau bald wieder vorbei!',
+
+  'related.title': 'Ähnliche Inhalte',
+  'related.blogPost': 'Blogbeitrag',
+  'related.work': 'Arbeit',
+
+  'cite.title': 'Diese Arbeit zitieren',
+  'cite.style': 'Zitierstil',
+  'cite.copy': '{style} kopieren',
+  'cite.copied': 'Kopiert!',
+  'cite.copyFailed': 'Kopieren fehlgeschlagen',
+  'cite.download': 'Herunterladen:',
+
+  'code.copy': 'Kopieren',
+  'code.copyLabel': 'Code in die Zwischenablage kopieren',
+  'code.copied': 'Kopiert!',
+  'code.copyFailed': 'Kopieren fehlgeschlagen',
+  'code.expand': 'Alle {count} Zeilen anzeigen',
+  'code.collapse': 'Weniger anzeigen',
+
+  'callout.note': 'Hinweis',
+  'callout.tip': 'Tipp',
+  'callout.warning': 'Warnung',
+  'figure.label': 'Abbildung',
+  'sidenote.toggle': 'Anmerkung ein- oder ausblenden',
+};
+
+export const ui: Record<Locale, Record<UIKey, string>> = { en, de };
+
+export type TranslateParams = Record<string, string | number>;
+
+/**
+ * Get the string lookup for a locale
+ * @param locale - Locale of the current page
+ * @returns `t(key, params)`; `{name}` placeholders are replaced from params, and
+ *   counted strings (`key.one`/`key.other`) are chosen by `params.count`
+ */
+export function useTranslations(locale: Locale) {
+  const strings = ui[locale] ?? ui[DEFAULT_LOCALE];
+  const pluralRules = new Intl.PluralRules(LOCALE_INFO[locale].intl);
+
+  return function t(key: UIKey | PluralKey, params: TranslateParams = {}): string {
+    let resolvedKey = key as UIKey;
+
+    if (!(key in strings) && typeof params.count === 'number') {
+      const pluralKey = `${key}.${pluralRules.select(params.count)}` as UIKey;
+      resolvedKey = pluralKey in strings ? pluralKey : (`${key}.other` as UIKey);
+    }
+
+    const template = strings[resolvedKey] ?? ui[DEFAULT_LOCALE][resolvedKey] ?? key;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match
+    );
+  };
+}
@@ -0,0 +1,30 @@
+import { defineMiddleware } from 'astro:middleware';
+import { ONE_CLICK_UNSUBSCRIBE_PATH } from './utils/newsletter';
+
+// Content types a cross-site <form> can send without a CORS preflight
+const FORM_CONTENT_TYPES = ['application/x-www-form-urlencoded', 'multipart/form-data', 'text/plain'];
+
+// Endpoints that accept POSTs from anywhere. Mail providers send one-click
+// unsubscribe requests without an Origin; the token in the URL authorizes them.
+const CROSS_SITE_PATHS = [ONE_CLICK_UNSUBSCRIBE_PATH];
+
+/**
+ * CSRF protection for on-demand routes
+ * Astro's built-in `security.checkOrigin` is turned off because it has no
+ * exceptions; this applies the same rule (form posts must come from this
+ * origin) everywhere except CROSS_SITE_PATHS.
+ */
+export const onRequest = defineMiddleware((context, next) => {
+  const { request, url, isPrerendered } = context;
+
+  if (isPrerendered || ['GET', 'HEAD', 'OPTIONS'].includes(request.method)) return next();
+  if (CROSS_SITE_PATHS.includes(url.pathname)) return next();
+
+  const contentType = request.headers.get('content-type')?.toLowerCase();
+  const formLike = contentType === undefined || FORM_CONTENT_TYPES.some((type) => contentType.includes(type));
+
+  if (formLike && request.headers.get('origin') !== url.origin) {
+    return new Response(`Cross-site ${request.method} form submissions are forbidden`, { status: 403 });
+  }
+  return next();
+});
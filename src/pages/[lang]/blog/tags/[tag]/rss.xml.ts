@@ -0,0 +1,49 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import type { APIContext, GetStaticPaths } from 'astro';
+import { LOCALES, type Locale } from '../../../../../config/i18n';
+import { SITE } from '../../../../../config/site';
+import { isPublished } from '../../../../../utils/publish';
+import { sortBlogPosts } from '../../../../../utils/sortByDate';
+import { filterByTag, getAllTags, type ResolvedTag } from '../../../../../utils/filterByTag';
+import { localizePath } from '../../../../../utils/i18n';
+import { localizeEntries } from '../../../../../utils/translations';
+import { useTranslations } from '../../../../../i18n/ui';
+import { createRssFeed, getBlogFeedItems, getSiteUrl } from '../../../../../utils/feed';
+
+// Generate one feed per locale and tag (e.g. /en/blog/tags/astro/rss.xml)
+export const getStaticPaths = (async () => {
+  const blog = await getCollection('blog', ({ data }) => {
+    return isPublished(data);
+  });
+
+  return LOCALES.flatMap((lang) => {
+    const posts = localizeEntries(blog, lang);
+
+    return getAllTags(posts).map((tag) => ({
+      params: { lang, tag: tag.slug },
+      props: { locale: lang, tag, posts: sortBlogPosts(filterByTag(posts, tag.slug)) },
+    }));
+  });
+}) satisfies GetStaticPaths;
+
+interface Props {
+  locale: Locale;
+  tag: ResolvedTag;
+  posts: CollectionEntry<'blog'>[];
+}
+
+export async function GET(context: APIContext<Props>) {
+  const { locale, tag, posts } = context.props;
+  const t = useTranslations(locale);
+  const site = getSiteUrl(context);
+
+  return createRssFeed({
+    title: `${SITE.title} - ${tag.name}`,
+    description: tag.description?.[locale] ?? t('tags.pageDescription', { tag: tag.name }),
+    site,
+    feedPath: localizePath(`/blog/tags/${context.params.tag}/rss.xml`, locale),
+    homePath: localizePath(`/blog/tags/${context.params.tag}`, locale),
+    locale,
+    items: await getBlogFeedItems(posts, site),
+  });
+}
@@ -0,0 +1,34 @@
+import { getCollection } from 'astro:content';
+import { SITE } from '../../config/site';
+import type { APIContext } from 'astro';
+import { isPublished } from '../../utils/publish';
+import { sortBlogPosts } from '../../utils/sortByDate';
+import { getLocale, getLocaleStaticPaths, localizePath } from '../../utils/i18n';
+import { localizeEntries } from '../../utils/translations';
+import { createJsonFeed, getBlogFeedItems, getSiteUrl } from '../../utils/feed';
+
+// One feed per locale (e.g. /de/feed.json); /feed.json serves the default locale
+export function getStaticPaths() {
+  return getLocaleStaticPaths();
+}
+
+export async function GET(context: APIContext) {
+  const locale = getLocale(context.params.lang);
+
+  // Get all published blog posts (never drafts or scheduled posts)
+  const blog = await getCollection('blog', ({ data }) => {
+    return isPublished(data);
+  });
+
+  const site = getSiteUrl(context);
+
+  return createJsonFeed({
+    title: SITE.title,
+    description: SITE.description,
+    site,
+    feedPath: context.url.pathname, // The unprefixed feed re-exports this handler
+    homePath: localizePath('/', locale),
+    locale,
+    items: await getBlogFeedItems(sortBlogPosts(localizeEntries(blog, locale)), site),
+  });
+}
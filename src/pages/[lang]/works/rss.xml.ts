@@ -0,0 +1,33 @@
+import { getCollection } from 'astro:content';
+import { SITE } from '../../../config/site';
+import type { APIContext } from 'astro';
+import { sortWorks } from '../../../utils/sortByDate';
+import { getLocale, getLocaleStaticPaths, localizePath } from '../../../utils/i18n';
+import { localizeEntries } from '../../../utils/translations';
+import { useTranslations } from '../../../i18n/ui';
+import { createRssFeed, getSiteUrl, getWorksFeedItems } from '../../../utils/feed';
+
+// One feed per locale (e.g. /de/works/rss.xml); /works/rss.xml serves the default locale
+export function getStaticPaths() {
+  return getLocaleStaticPaths();
+}
+
+export async function GET(context: APIContext) {
+  const locale = getLocale(context.params.lang);
+  const t = useTranslations(locale);
+
+  // Get all works and publications
+  const works = await getCollection('works');
+
+  const site = getSiteUrl(context);
+
+  return createRssFeed({
+    title: `${SITE.title} - ${t('works.title')}`,
+    description: t('works.feedDescription'),
+    site,
+    feedPath: context.url.pathname, // The unprefixed feed re-exports this handler
+    homePath: localizePath('/works', locale),
+    locale,
+    items: await getWorksFeedItems(sortWorks(localizeEntries(works, locale)), site),
+  });
+}
@@ -0,0 +1,82 @@
+import type { APIContext } from 'astro';
+import { CONTACT_TO } from 'astro:env/server';
+import { SITE } from '../../config/site';
+import { localizePath } from '../../utils/i18n';
+import { getServerMailTransport } from '../../utils/server';
+import { createRateLimiter } from '../../utils/rateLimit';
+import {
+  getFormLocale,
+  isSpam,
+  parseContactForm,
+  type ContactField,
+  type ContactStatus,
+} from '../../utils/contact';
+
+// Rendered on request: the contact form posts here
+export const prerender = false;
+
+// Five submissions per visitor every ten minutes
+const limiter = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 });
+
+const HTTP_STATUS: Record<ContactStatus, number> = {
+  sent: 200,
+  invalid: 400,
+  'rate-limited': 429,
+  failed: 502,
+};
+
+export async function POST(context: APIContext) {
+  const { request } = context;
+  const wantsJson = request.headers.get('accept')?.includes('application/json') ?? false;
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return new Response('Expected a form submission', { status: 400 });
+  }
+
+  const locale = getFormLocale(form);
+
+  // JavaScript submissions get JSON; plain form posts are redirected back to the page
+  const respond = (status: ContactStatus, fields: ContactField[] = [], headers: HeadersInit = {}) => {
+    if (wantsJson) {
+      return Response.json({ status, fields }, { status: HTTP_STATUS[status], headers });
+    }
+
+    const params = new URLSearchParams({ status });
+    if (fields.length > 0) params.set('fields', fields.join(','));
+    return context.redirect(`${localizePath('/contact', locale)}?${params}#contact-form`, 303);
+  };
+
+  const { allowed, retryAfter } = limiter.check(context.clientAddress);
+  if (!allowed) {
+    return respond('rate-limited', [], { 'Retry-After': String(retryAfter) });
+  }
+
+  // Pretend spam went through so bots don't retry with different input
+  if (isSpam(form)) {
+    return respond('sent');
+  }
+
+  const result = parseContactForm(form);
+  if (!result.success) {
+    return respond('invalid', result.fields);
+  }
+
+  const { name, email, subject, message } = result.data;
+
+  try {
+    await getServerMailTransport().send({
+      to: CONTACT_TO || SITE.email,
+      replyTo: { name, address: email },
+      subject: `[${SITE.title}] ${subject || `Message from ${name}`}`,
+      text: [`From: ${name} (${email})`, `Language: ${locale}`, '', message].join('\n'),
+    });
+  } catch (error) {
+    console.error('Contact form: sending failed', error);
+    return respond('failed');
+  }
+
+  return respond('sent');
+}
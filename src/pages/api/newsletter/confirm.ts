@@ -0,0 +1,21 @@
+import type { APIContext } from 'astro';
+import { DEFAULT_LOCALE } from '../../../config/i18n';
+import { getServerSubscriberStore } from '../../../utils/server';
+import { getNewsletterPath } from '../../../utils/newsletter';
+
+// Rendered on request: the link in the confirmation email opens this
+export const prerender = false;
+
+export function GET(context: APIContext) {
+  const token = context.url.searchParams.get('token') ?? '';
+
+  try {
+    const subscriber = token ? getServerSubscriberStore().confirm(token) : undefined;
+    return subscriber
+      ? context.redirect(getNewsletterPath(subscriber.lang, 'confirmed'), 303)
+      : context.redirect(getNewsletterPath(DEFAULT_LOCALE, 'expired'), 303);
+  } catch (error) {
+    console.error('Newsletter: confirming failed', error);
+    return context.redirect(getNewsletterPath(DEFAULT_LOCALE, 'failed'), 303);
+  }
+}
@@ -0,0 +1,79 @@
+import type { APIContext } from 'astro';
+import { SITE } from '../../../config/site';
+import { HONEYPOT_FIELD, getFormLocale } from '../../../utils/contact';
+import { createRateLimiter } from '../../../utils/rateLimit';
+import { getServerMailTransport, getServerSubscriberStore } from '../../../utils/server';
+import {
+  getConfirmUrl,
+  getNewsletterPath,
+  parseSubscribeForm,
+  renderConfirmationEmail,
+  type NewsletterStatus,
+} from '../../../utils/newsletter';
+
+// Rendered on request: subscribe forms post here
+export const prerender = false;
+
+// Five sign-ups per visitor every ten minutes
+const limiter = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 });
+
+const HTTP_STATUS: Partial<Record<NewsletterStatus, number>> = {
+  invalid: 400,
+  'rate-limited': 429,
+  failed: 502,
+};
+
+export async function POST(context: APIContext) {
+  const { request } = context;
+  const wantsJson = request.headers.get('accept')?.includes('application/json') ?? false;
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return new Response('Expected a form submission', { status: 400 });
+  }
+
+  const locale = getFormLocale(form);
+
+  // JavaScript submissions get JSON; plain form posts land on the newsletter page
+  const respond = (status: NewsletterStatus, headers: HeadersInit = {}) => {
+    if (wantsJson) {
+      return Response.json({ status }, { status: HTTP_STATUS[status] ?? 200, headers });
+    }
+    return context.redirect(getNewsletterPath(locale, status), 303);
+  };
+
+  const { allowed, retryAfter } = limiter.check(context.clientAddress);
+  if (!allowed) {
+    return respond('rate-limited', { 'Retry-After': String(retryAfter) });
+  }
+
+  // Pretend spam went through so bots don't retry with different input
+  if (String(form.get(HONEYPOT_FIELD) ?? '') !== '') {
+    return respond('pending');
+  }
+
+  const email = parseSubscribeForm(form);
+  if (!email) {
+    return respond('invalid');
+  }
+
+  try {
+    // Confirmed addresses get no new mail, but the same answer
+    const token = getServerSubscriberStore().subscribe(email, locale);
+    if (token) {
+      // The configured site URL, never the request's Host header, which the sender controls
+      const site = String(context.site ?? SITE.siteUrl).replace(/\/$/, '');
+      await getServerMailTransport().send({
+        to: email,
+        ...renderConfirmationEmail(locale, getConfirmUrl(site, token)),
+      });
+    }
+  } catch (error) {
+    console.error('Newsletter: subscribing failed', error);
+    return respond('failed');
+  }
+
+  return respond('pending');
+}
@@ -0,0 +1,49 @@
+import type { APIContext } from 'astro';
+import { getFormLocale } from '../../../utils/contact';
+import { getLocale } from '../../../utils/i18n';
+import { getServerSubscriberStore } from '../../../utils/server';
+import { getNewsletterPath, getUnsubscribeUrl } from '../../../utils/newsletter';
+
+// Rendered on request: the button on the unsubscribe page posts here, and so do
+// mail providers for one-click unsubscribe (List-Unsubscribe-Post, RFC 8058)
+export const prerender = false;
+
+// The List-Unsubscribe link opened in a browser: show the unsubscribe button
+export function GET(context: APIContext) {
+  const { searchParams } = context.url;
+  const locale = getLocale(searchParams.get('lang') ?? undefined);
+  const token = searchParams.get('token') ?? '';
+
+  return context.redirect(
+    token ? getUnsubscribeUrl('', locale, token) : getNewsletterPath(locale, 'expired'),
+    303
+  );
+}
+
+export async function POST(context: APIContext) {
+  let form: FormData;
+  try {
+    form = await context.request.formData();
+  } catch {
+    return new Response('Expected a form submission', { status: 400 });
+  }
+
+  // One-click requests carry the token in the URL and expect a plain answer, not a page
+  const oneClick = form.get('List-Unsubscribe') === 'One-Click';
+  const token = String(form.get('token') ?? context.url.searchParams.get('token') ?? '');
+
+  try {
+    const subscriber = token ? getServerSubscriberStore().unsubscribe(token) : undefined;
+    if (oneClick) {
+      return new Response(subscriber ? 'Unsubscribed' : 'Unknown or expired token', { status: subscriber ? 200 : 404 });
+    }
+    return subscriber
+      ? context.redirect(getNewsletterPath(subscriber.lang, 'unsubscribed'), 303)
+      : context.redirect(getNewsletterPath(getFormLocale(form), 'expired'), 303);
+  } catch (error) {
+    console.error('Newsletter: unsubscribing failed', error);
+    return oneClick
+      ? new Response('Unsubscribing failed', { status: 500 })
+      : context.redirect(getNewsletterPath(getFormLocale(form), 'failed'), 303);
+  }
+}
@@ -0,0 +1,12 @@
+import type { APIContext } from 'astro';
+import { DEFAULT_LOCALE } from '../../config/i18n';
+import { localizePath } from '../../utils/i18n';
+
+// Old unprefixed blog URLs (before the locale prefix) lead to their English pages.
+// Rendered on request, since the build can't list every path that used to exist;
+// prerendered routes under /blog/ take precedence over this catch-all.
+export const prerender = false;
+
+export function GET({ url, redirect }: APIContext) {
+  return redirect(localizePath(url.pathname, DEFAULT_LOCALE) + url.search, 301);
+}
@@ -0,0 +1,2 @@
+// Default-locale feed at its original URL, so existing subscriptions keep working
+export { GET } from './[lang]/feed.json';
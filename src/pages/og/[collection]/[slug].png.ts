@@ -0,0 +1,13 @@
+import type { APIContext, GetStaticPaths } from 'astro';
+import { createOgImageResponse, getOgImagePaths, renderOgImage, type OgCard } from '../../../utils/ogImage';
+
+// Generate a light social card for every blog post and work (e.g. /og/blog/my-post.png)
+export const getStaticPaths = (async () => getOgImagePaths()) satisfies GetStaticPaths;
+
+interface Props {
+  card: OgCard;
+}
+
+export async function GET(context: APIContext<Props>) {
+  return createOgImageResponse(await renderOgImage(context.props.card, 'light'));
+}
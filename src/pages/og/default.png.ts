@@ -0,0 +1,6 @@
+import { createOgImageResponse, getDefaultOgCard, renderOgImage } from '../../utils/ogImage';
+
+// Site-wide light social card for pages without their own
+export async function GET() {
+  return createOgImageResponse(await renderOgImage(getDefaultOgCard(), 'light'));
+}
@@ -0,0 +1,20 @@
+import { getCollection } from 'astro:content';
+import { getCitation, toBibTeX } from '../utils/citation';
+import { groupPublicationsByYear, isPublication } from '../utils/publications';
+import { localizeEntries } from '../utils/translations';
+import { DEFAULT_LOCALE } from '../config/i18n';
+
+export async function GET() {
+  // Every research paper and publication with citation metadata, newest first
+  // (one entry per paper, even when it has translations)
+  const works = localizeEntries(await getCollection('works'), DEFAULT_LOCALE).filter(isPublication);
+  const entries = groupPublicationsByYear(works)
+    .flatMap(({ works }) => works)
+    .map((work) => getCitation(work))
+    .filter((citation) => citation !== undefined)
+    .map(toBibTeX);
+
+  return new Response(entries.join('\n'), {
+    headers: { 'Content-Type': 'application/x-bibtex; charset=utf-8' },
+  });
+}
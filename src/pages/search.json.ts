@@ -0,0 +1,49 @@
+import { getCollection } from 'astro:content';
+import { createSearchDocument, type SearchIndex } from '../utils/search';
+import { isPublished } from '../utils/publish';
+import { getTranslationKey } from '../utils/translations';
+import { resolveTags } from '../utils/filterByTag';
+
+export async function GET() {
+  // Get all published blog posts and works (never drafts or scheduled posts)
+  const blog = await getCollection('blog', ({ data }) => {
+    return isPublished(data);
+  });
+  const works = await getCollection('works');
+
+  const index: SearchIndex = {
+    generatedAt: new Date().toISOString(),
+    documents: [
+      ...blog.map((post) =>
+        createSearchDocument({
+          collection: 'blog',
+          slug: post.slug,
+          lang: post.data.lang,
+          translationKey: getTranslationKey(post),
+          title: post.data.title,
+          description: post.data.description,
+          tags: resolveTags(post.data.tags).map((tag) => tag.name),
+          body: post.body,
+          date: post.data.pubDate,
+        })
+      ),
+      ...works.map((work) =>
+        createSearchDocument({
+          collection: 'works',
+          slug: work.slug,
+          lang: work.data.lang,
+          translationKey: getTranslationKey(work),
+          title: work.data.title,
+          description: work.data.description,
+          tags: resolveTags(work.data.tags).map((tag) => tag.name),
+          body: work.body,
+          date: work.data.date,
+        })
+      ),
+    ],
+  };
+
+  return new Response(JSON.stringify(index), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,25 @@
+import { getCollection } from 'astro:content';
+import type { APIContext, GetStaticPaths } from 'astro';
+import { getCitation, toCSL, type Citation } from '../../utils/citation';
+
+// Generate a CSL-JSON item for every work with citation metadata (e.g. /works/my-paper.json)
+export const getStaticPaths = (async () => {
+  const works = await getCollection('works');
+
+  return works.flatMap((work) => {
+    const citation = getCitation(work);
+    return citation ? [{ params: { slug: work.slug }, props: { citation } }] : [];
+  });
+}) satisfies GetStaticPaths;
+
+interface Props {
+  citation: Citation;
+}
+
+export function GET(context: APIContext<Props>) {
+  const { citation } = context.props;
+
+  return new Response(JSON.stringify([toCSL(citation)], null, 2), {
+    headers: { 'Content-Type': 'application/vnd.citationstyles.csl+json; charset=utf-8' },
+  });
+}
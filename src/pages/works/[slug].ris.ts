@@ -0,0 +1,25 @@
+import { getCollection } from 'astro:content';
+import type { APIContext, GetStaticPaths } from 'astro';
+import { getCitation, toRIS, type Citation } from '../../utils/citation';
+
+// Generate a RIS record for every work with citation metadata (e.g. /works/my-paper.ris)
+export const getStaticPaths = (async () => {
+  const works = await getCollection('works');
+
+  return works.flatMap((work) => {
+    const citation = getCitation(work);
+    return citation ? [{ params: { slug: work.slug }, props: { citation } }] : [];
+  });
+}) satisfies GetStaticPaths;
+
+interface Props {
+  citation: Citation;
+}
+
+export function GET(context: APIContext<Props>) {
+  const { citation } = context.props;
+
+  return new Response(toRIS(citation), {
+    headers: { 'Content-Type': 'application/x-research-info-systems; charset=utf-8' },
+  });
+}
@@ -0,0 +1,356 @@
+import { fileURLToPath } from 'node:url';
+import type { AstroIntegration } from 'astro';
+import { isMap, isScalar, isSeq } from 'yaml';
+import { DESCRIPTION_MAX_LENGTH } from '../config/site';
+import { LOCALES } from '../config/i18n';
+import { TAGS } from '../config/tags';
+import { resolveTag } from '../utils/filterByTag';
+import {
+  CONTENT_COLLECTIONS,
+  loadContentFiles,
+  type ContentCollectionName,
+  type ContentFile,
+} from '../utils/contentFiles';
+
+export type LintRule =
+  | 'broken-link'
+  | 'missing-alt'
+  | 'description-length'
+  | 'unknown-tag'
+  | 'tag-case'
+  | 'empty-tag-slug'
+  | 'tag-slug-collision'
+  | 'placeholder-link'
+  | 'reserved-slug';
+
+export interface LintProblem {
+  file: string; // Relative to the project root
+  line: number;
+  rule: LintRule;
+  message: string;
+}
+
+export interface ContentLintOptions {
+  strict?: boolean; // Fail the build when any problem is found (default: false, only warn)
+}
+
+// Second path segments that are listing pages, not entries (e.g. /en/blog/archive, /en/blog/2025);
+// links to them aren't checked, and entries may not use them as slugs
+const RESERVED_SEGMENTS: Record<ContentCollectionName, RegExp> = {
+  blog: /^(archive|page|series|tags|\d{4})$/,
+  works: /^type$/,
+};
+
+// Fenced code blocks and inline code, whose contents are not checked
+const CODE_PATTERN = /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1[^\n]*$|`[^`\n]*`/gm;
+
+// `[text](url)` and `![alt](src)`, with an optional title
+const MARKDOWN_LINK_PATTERN = /(!?)\[([^\]]*)\]\(\s*<?([^)\s>]*)>?(?:\s+["'][^)]*["'])?\s*\)/g;
+
+// `href="..."` on HTML and MDX elements
+const HREF_PATTERN = /\bhref=(["'])(.*?)\1/g;
+
+// Image elements and MDX components that render one
+const IMAGE_TAG_PATTERN = /<(img|Image|Figure)\b([^>]*?)\/?>/g;
+
+/**
+ * Get the file line of a frontmatter value
+ * @param content - Parsed file
+ * @param keyPath - Path to the value, e.g. ['links', 0, 'url']
+ * @returns 1-based line, or the line of the opening `---` if the value is missing
+ */
+function frontmatterLine(content: ContentFile, keyPath: (string | number)[]): number {
+  const node = content.frontmatter.getIn(keyPath, true);
+  const offset = isScalar(node) || isMap(node) || isSeq(node) ? node.range?.[0] : undefined;
+  return offset === undefined ? 1 : content.lineCounter.linePos(offset).line + 1;
+}
+
+/**
+ * Get the file line of a position in the body
+ */
+function bodyLineAt(content: ContentFile, index: number): number {
+  return content.bodyLine + content.body.slice(0, index).split('\n').length - 1;
+}
+
+/**
+ * Check where an internal link to a blog post or work leads
+ * @param href - Link target, e.g. '/en/blog/my-post#intro'
+ * @param entries - Entries by `collection/slug`
+ * @returns Why the link is broken, or undefined if it works or is not an entry link
+ */
+function checkEntryLink(href: string, entries: Map<string, ContentFile>): string | undefined {
+  if (!href.startsWith('/')) return undefined;
+
+  const segments = href.split(/[?#]/)[0].replace(/\/$/, '').split('/').slice(1);
+  const lang = (LOCALES as readonly string[]).includes(segments[0]) ? segments.shift() : undefined;
+  const [collection, slug, ...rest] = segments;
+
+  if (!(CONTENT_COLLECTIONS as readonly string[]).includes(collection) || !slug || rest.length > 0) return undefined;
+  if (RESERVED_SEGMENTS[collection as ContentCollectionName].test(slug)) return undefined;
+
+  // Citation exports stay at /works/[slug].bib, .ris and .json
+  const exportSlug = collection === 'works' && !lang ? slug.match(/^(.+)\.(bib|ris|json)$/)?.[1] : undefined;
+  const target = entries.get(`${collection}/${exportSlug ?? slug}`);
+
+  if (!target) {
+    return `there is no ${collection === 'blog' ? 'blog post' : 'work'} "${exportSlug ?? slug}"`;
+  }
+  if (!exportSlug && lang !== target.lang) {
+    return `the page is at /${target.lang}/${collection}/${target.slug}`;
+  }
+  return undefined;
+}
+
+/**
+ * Check the body of an entry: internal links, placeholder links and image alt text
+ */
+function lintBody(content: ContentFile, entries: Map<string, ContentFile>): LintProblem[] {
+  const problems: LintProblem[] = [];
+  const report = (index: number, rule: LintRule, message: string) => {
+    problems.push({ file: content.file, line: bodyLineAt(content, index), rule, message });
+  };
+
+  // Blank out code so examples are not linted; offsets and lines stay the same
+  const body = content.body.replace(CODE_PATTERN, (code) => code.replace(/[^\n]/g, ' '));
+
+  const checkHref = (index: number, href: string) => {
+    if (href === '#' || href === '') {
+      report(index, 'placeholder-link', `Link points at "${href || '#'}"`);
+      return;
+    }
+    const reason = checkEntryLink(href, entries);
+    if (reason) report(index, 'broken-link', `Link to ${href} is broken: ${reason}`);
+  };
+
+  for (const match of body.matchAll(MARKDOWN_LINK_PATTERN)) {
+    const [, image, text, url] = match;
+    if (image) {
+      if (!text.trim()) report(match.index, 'missing-alt', `Image ${url} has no alt text`);
+    } else {
+      checkHref(match.index, url);
+    }
+  }
+
+  for (const match of body.matchAll(HREF_PATTERN)) {
+    checkHref(match.index, match[2]);
+  }
+
+  for (const match of body.matchAll(IMAGE_TAG_PATTERN)) {
+    const [, tag, attributes] = match;
+    if (!/\balt=(["'{])\s*[^\s"'}]/.test(attributes)) {
+      const src = attributes.match(/\bsrc=(["'])(.*?)\1/)?.[2];
+      report(match.index, 'missing-alt', `<${tag}>${src ? ` ${src}` : ''} has no alt text`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Check the frontmatter of an entry: description length, placeholder links and the cover image alt
+ */
+function lintFrontmatter(content: ContentFile): LintProblem[] {
+  const problems: LintProblem[] = [];
+  const report = (keyPath: (string | number)[], rule: LintRule, message: string) => {
+    problems.push({ file: content.file, line: frontmatterLine(content, keyPath), rule, message });
+  };
+
+  const { description, links, image } = content.data;
+
+  if (typeof description === 'string' && description.length > DESCRIPTION_MAX_LENGTH) {
+    report(
+      ['description'],
+      'description-length',
+      `Description is ${description.length} characters; search results and social cards cut it at ${DESCRIPTION_MAX_LENGTH}`
+    );
+  }
+
+  if (Array.isArray(links)) {
+    links.forEach((link: { label?: string; url?: string }, i) => {
+      if (link?.url === '#' || link?.url === '') {
+        report(['links', i, 'url'], 'placeholder-link', `Link "${link.label ?? ''}" points at "${link.url || '#'}"`);
+      }
+    });
+  }
+
+  if (image && typeof image === 'object' && !String((image as { alt?: unknown }).alt ?? '').trim()) {
+    report(['image'], 'missing-alt', 'Cover image has no alt text');
+  }
+
+  if (RESERVED_SEGMENTS[content.collection].test(content.slug)) {
+    report(
+      ['slug'],
+      'reserved-slug',
+      `Slug "${content.slug}" is taken by a listing page (/${content.collection}/${content.slug}), which hides this entry; set a different \`slug\``
+    );
+  }
+
+  return problems;
+}
+
+// Tag spelling with case, accents and separators folded but symbols kept,
+// so "Web Development" matches "web-development" while "C++" and "C" stay apart
+function tagSpelling(tag: string): string {
+  return tag
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[\s_-]+/g, '-');
+}
+
+/**
+ * Find tags missing from the tag registry, unregistered tags spelled with
+ * different capitalization across the collections, and tags whose slug is empty
+ * or shared with a different tag (e.g. "C++" and "C#" both become "c")
+ * Registered tags match in any capitalization, so only unregistered ones can split.
+ * Every use of a spelling other than the most common one is reported.
+ */
+function lintTags(files: ContentFile[]): LintProblem[] {
+  const problems: LintProblem[] = [];
+  const uses = new Map<string, { content: ContentFile; index: number; tag: string }[]>();
+  const slugUses = new Map<string, { content: ContentFile; index: number; tag: string }[]>();
+
+  for (const content of files) {
+    const tags = content.data.tags;
+    if (!Array.isArray(tags)) continue;
+
+    tags.forEach((tag, index) => {
+      if (typeof tag !== 'string') return;
+      const resolved = resolveTag(tag);
+      const line = frontmatterLine(content, ['tags', index]);
+
+      if (!resolved.slug) {
+        problems.push({
+          file: content.file,
+          line,
+          rule: 'empty-tag-slug',
+          message: `Tag "${tag}" has no letters or digits, so it gets no tag page and is left out`,
+        });
+        return;
+      }
+
+      if (resolved.registered) {
+        // Matched through its slug only, e.g. "C#" picked up the registered "C"
+        const definition = TAGS.find((entry) => entry.slug === resolved.slug);
+        const spellings = [definition?.name, definition?.slug, ...(definition?.aliases ?? [])];
+        if (!spellings.some((spelling) => spelling !== undefined && tagSpelling(spelling) === tagSpelling(tag))) {
+          problems.push({
+            file: content.file,
+            line,
+            rule: 'tag-slug-collision',
+            message: `Tag "${tag}" has the same slug "${resolved.slug}" as the registered tag "${resolved.name}" and is shown as it`,
+          });
+        }
+        return;
+      }
+
+      problems.push({
+        file: content.file,
+        line,
+        rule: 'unknown-tag',
+        message: `Tag "${tag}" is not in the tag registry (src/config/tags.ts)`,
+      });
+
+      const key = tag.toLowerCase();
+      uses.set(key, [...(uses.get(key) ?? []), { content, index, tag }]);
+      slugUses.set(resolved.slug, [...(slugUses.get(resolved.slug) ?? []), { content, index, tag }]);
+    });
+  }
+
+  for (const tagUses of uses.values()) {
+    const counts = new Map<string, number>();
+    tagUses.forEach(({ tag }) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+    if (counts.size < 2) continue;
+
+    const [preferred, preferredCount] = [...counts].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+
+    for (const { content, index, tag } of tagUses) {
+      if (tag === preferred) continue;
+      problems.push({
+        file: content.file,
+        line: frontmatterLine(content, ['tags', index]),
+        rule: 'tag-case',
+        message: `Tag "${tag}" differs only in case from "${preferred}" (used ${preferredCount} ${preferredCount === 1 ? 'time' : 'times'})`,
+      });
+    }
+  }
+
+  // Spellings that differ in more than case or separators but share a tag page
+  for (const [slug, tagUses] of slugUses) {
+    const counts = new Map<string, { tag: string; count: number }>();
+    tagUses.forEach(({ tag }) => {
+      const spelling = tagSpelling(tag);
+      counts.set(spelling, { tag: counts.get(spelling)?.tag ?? tag, count: (counts.get(spelling)?.count ?? 0) + 1 });
+    });
+    if (counts.size < 2) continue;
+
+    const [preferred, { tag: preferredTag }] = [...counts].reduce((best, entry) => (entry[1].count > best[1].count ? entry : best));
+
+    for (const { content, index, tag } of tagUses) {
+      if (tagSpelling(tag) === preferred) continue;
+      problems.push({
+        file: content.file,
+        line: frontmatterLine(content, ['tags', index]),
+        rule: 'tag-slug-collision',
+        message: `Tag "${tag}" has the same slug "${slug}" as "${preferredTag}" and shares its tag page`,
+      });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Lint every blog post and work
+ * @param root - Project root
+ * @returns Problems, sorted by file and line
+ */
+export async function lintContent(root: string): Promise<LintProblem[]> {
+  const files = await loadContentFiles(root);
+  const entries = new Map(files.map((content) => [`${content.collection}/${content.slug}`, content]));
+
+  return [
+    ...files.flatMap((content) => [...lintFrontmatter(content), ...lintBody(content, entries)]),
+    ...lintTags(files),
+  ].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
+
+/**
+ * Format a problem as `file:line  message  (rule)`
+ */
+export function formatProblem(problem: LintProblem): string {
+  return `${problem.file}:${problem.line}  ${problem.message}  (${problem.rule})`;
+}
+
+/**
+ * Astro integration that lints the content before every build
+ * Problems are logged as warnings; in strict mode they are errors and fail the build.
+ */
+export default function contentLint({ strict = false }: ContentLintOptions = {}): AstroIntegration {
+  let root = process.cwd();
+
+  return {
+    name: 'content-lint',
+    hooks: {
+      'astro:config:done': ({ config }) => {
+        root = fileURLToPath(config.root);
+      },
+      'astro:build:start': async ({ logger }) => {
+        const problems = await lintContent(root);
+
+        for (const problem of problems) {
+          if (strict) {
+            logger.error(formatProblem(problem));
+          } else {
+            logger.warn(formatProblem(problem));
+          }
+        }
+
+        if (strict && problems.length > 0) {
+          throw new Error(`Content lint found ${problems.length} ${problems.length === 1 ? 'problem' : 'problems'}`);
+        }
+      },
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import type { Link, Parent, Root, RootContent } from 'mdast';
+import type { InlineMath, Math } from 'mdast-util-math';
+import type { VFile } from 'vfile';
+
+// `\label{eq:name}` inside a display equation
+const LABEL_PATTERN = /\\label\{([^}]+)\}/;
+
+// Inline math that is only a reference, e.g. `$\eqref{eq:name}$`
+const REFERENCE_PATTERN = /^\s*\\(eq)?ref\{([^}]+)\}\s*$/;
+
+/**
+ * Get the element id of a labelled equation
+ * @param label - Label as written in `\label{...}`, e.g. 'eq:energy'
+ * @returns Anchor id, e.g. 'eq-energy'
+ */
+export function getEquationId(label: string): string {
+  return `eq-${label.replace(/^eq:/, '').replace(/[^a-zA-Z0-9_-]+/g, '-')}`;
+}
+
+function walk(node: Root | RootContent, visitor: (node: RootContent, index: number, parent: Parent) => void) {
+  if (!('children' in node)) return;
+
+  node.children.forEach((child, index) => {
+    visitor(child, index, node);
+    walk(node.children[index], visitor);
+  });
+}
+
+/**
+ * Number labelled display equations and resolve references to them
+ * Runs after remark-math and before rehype-katex. Each `$$ ... \label{eq:name} $$`
+ * gets the next number as its `\tag` and an `eq-name` anchor; inline
+ * `$\eqref{eq:name}$` becomes a link reading "(n)" and `$\ref{eq:name}$` one reading "n".
+ */
+export default function remarkEquations() {
+  return (tree: Root, file: VFile) => {
+    const numbers = new Map<string, number>();
+
+    // Number labelled equations in document order and anchor them
+    walk(tree, (node, index, parent) => {
+      if (node.type !== 'math') return;
+
+      const label = (node as Math).value.match(LABEL_PATTERN)?.[1];
+      if (!label) return;
+
+      const number = numbers.size + 1;
+      numbers.set(label, number);
+      (node as Math).value = (node as Math).value.replace(LABEL_PATTERN, `\\tag{${number}}`);
+
+      // Wrapper element so the anchor survives KaTeX replacing the math node
+      parent.children[index] = {
+        type: 'equation',
+        data: { hName: 'div', hProperties: { id: getEquationId(label), className: ['equation'] } },
+        children: [node],
+      } as unknown as RootContent;
+    });
+
+    // Replace references with links to the numbered equations
+    walk(tree, (node, index, parent) => {
+      if (node.type !== 'inlineMath') return;
+
+      const match = (node as InlineMath).value.match(REFERENCE_PATTERN);
+      if (!match) return;
+
+      const [, isEqref, label] = match;
+      const number = numbers.get(label);
+
+      if (number === undefined) {
+        console.warn(`[remark-equations] ${file.path}: unknown equation label "${label}"`);
+        return;
+      }
+
+      const link: Link = {
+        type: 'link',
+        url: `#${getEquationId(label)}`,
+        children: [{ type: 'text', value: isEqref ? `(${number})` : String(number) }],
+        data: { hProperties: { className: ['equation-ref'] } },
+      };
+      parent.children[index] = link as RootContent;
+    });
+  };
+}
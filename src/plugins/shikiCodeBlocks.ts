@@ -0,0 +1,51 @@
+import type { Element, ElementContent } from 'hast';
+import type { ShikiTransformer } from 'shiki';
+
+export interface CodeBlockOptions {
+  collapseAfter?: number; // Snippets longer than this many lines start collapsed (default: 25)
+}
+
+// `title="src/file.ts"` or `title='src/file.ts'` in the code fence meta
+const TITLE_PATTERN = /\btitle=(["'])(.*?)\1/;
+
+function element(tagName: string, className: string, children: ElementContent[]): Element {
+  return { type: 'element', tagName, properties: { className: [className] }, children };
+}
+
+/**
+ * Shiki transformer that wraps code blocks for the title bar, line numbers and collapsing
+ * Reads the code fence meta, e.g. ```ts title="src/config.ts" showLineNumbers noCollapse
+ * The copy and expand buttons are added on the client by CodeBlockEnhancements.astro.
+ */
+export default function transformerCodeBlocks({ collapseAfter = 25 }: CodeBlockOptions = {}): ShikiTransformer {
+  return {
+    name: 'code-blocks',
+    pre(node) {
+      const meta = this.options.meta?.__raw || '';
+      const lineCount = this.source.split('\n').length;
+
+      if (/\b(showLineNumbers|lineNumbers)\b/.test(meta)) {
+        this.addClassToHast(node, 'has-line-numbers');
+      }
+      if (lineCount > collapseAfter && !/\bnoCollapse\b/.test(meta)) {
+        node.properties['data-collapsible'] = String(lineCount);
+      }
+    },
+    root(root) {
+      const pre = root.children.find((child): child is Element => child.type === 'element');
+      if (!pre) return;
+
+      const title = (this.options.meta?.__raw || '').match(TITLE_PATTERN)?.[2];
+      const header = title
+        ? [
+            element('div', 'code-block-header', [
+              element('span', 'code-block-title', [{ type: 'text', value: title }]),
+              element('span', 'code-block-lang', [{ type: 'text', value: this.options.lang }]),
+            ]),
+          ]
+        : [];
+
+      root.children = [element('div', 'code-block', [...header, pre])];
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { DEFAULT_LOCALE, type Locale } from '../config/i18n';
+import { formatDate } from './formatDate';
+import { sortBlogPosts } from './sortByDate';
+
+/**
+ * Posts published in a single month
+ */
+export interface ArchiveMonth<T> {
+  month: number; // 0-11 (UTC)
+  label: string; // e.g. "December 2025" (in the locale passed to groupPostsByYearMonth)
+  posts: T[];
+}
+
+/**
+ * Posts published in a single year, grouped by month
+ */
+export interface ArchiveYear<T> {
+  year: number;
+  count: number;
+  months: ArchiveMonth<T>[];
+}
+
+/**
+ * Group blog posts by year and month (newest first)
+ * Dates are read in UTC to match formatDate
+ * @param posts - Array of blog posts
+ * @param locale - Locale of the month labels (default: the default locale)
+ * @returns Years in descending order, each with months in descending order
+ */
+export function groupPostsByYearMonth<T extends { data: { pubDate: Date } }>(
+  posts: T[],
+  locale: Locale = DEFAULT_LOCALE
+): ArchiveYear<T>[] {
+  const years: ArchiveYear<T>[] = [];
+
+  sortBlogPosts(posts).forEach((post) => {
+    const date = new Date(post.data.pubDate);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+
+    let yearGroup = years[years.length - 1];
+    if (!yearGroup || yearGroup.year !== year) {
+      yearGroup = { year, count: 0, months: [] };
+      years.push(yearGroup);
+    }
+
+    let monthGroup = yearGroup.months[yearGroup.months.length - 1];
+    if (!monthGroup || monthGroup.month !== month) {
+      monthGroup = { month, label: formatDate(date, 'month', locale), posts: [] };
+      yearGroup.months.push(monthGroup);
+    }
+
+    monthGroup.posts.push(post);
+    yearGroup.count++;
+  });
+
+  return years;
+}
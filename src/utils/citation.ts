@@ -0,0 +1,236 @@
+import type { CollectionEntry } from 'astro:content';
+import { SITE } from '../config/site';
+import { getEntryPath } from './translations';
+
+/**
+ * A parsed author name
+ */
+export interface CitationAuthor {
+  given: string;
+  family: string;
+}
+
+/**
+ * Normalized citation metadata for a work
+ */
+export interface Citation {
+  key: string; // BibTeX key, e.g. "jet2025artificial"
+  type: 'article' | 'report';
+  title: string;
+  authors: CitationAuthor[];
+  year: number;
+  month: number; // 1-12
+  venue?: string;
+  publisher?: string;
+  doi?: string;
+  ssrnId?: string;
+  url: string; // Best link: DOI, then SSRN, then explicit URL, then the work page
+  abstract?: string;
+}
+
+/**
+ * Parse an author name written as "Family, Given" or "Given Family"
+ * @param name - Author name
+ * @returns Parsed name (single names become the family name)
+ */
+export function parseAuthor(name: string): CitationAuthor {
+  const trimmed = name.trim();
+
+  if (trimmed.includes(',')) {
+    const [family, ...given] = trimmed.split(',');
+    return { family: family.trim(), given: given.join(',').trim() };
+  }
+
+  const parts = trimmed.split(/\s+/);
+  const family = parts.pop() || '';
+  return { family, given: parts.join(' ') };
+}
+
+/**
+ * Build normalized citation metadata for a work
+ * @param work - Work entry
+ * @returns Citation ready for formatting and export, or undefined if the work has no citation metadata
+ */
+export function getCitation(work: CollectionEntry<'works'>): Citation | undefined {
+  // Only research papers and publications carry citation metadata
+  if (!('citation' in work.data) || !work.data.citation) return undefined;
+  const { citation, abstract } = work.data;
+
+  const authors = citation.authors.map(parseAuthor);
+  const year = citation.year ?? work.data.date.getUTCFullYear();
+
+  const firstTitleWord = work.data.title
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .find((word) => word.length > 3) || 'work';
+  const key = `${(authors[0]?.family || 'anon').toLowerCase().replace(/[^a-z0-9]/g, '')}${year}${firstTitleWord}`;
+
+  const url = citation.doi
+    ? `https://doi.org/${citation.doi}`
+    : citation.ssrnId
+      ? `https://ssrn.com/abstract=${citation.ssrnId}`
+      : citation.url || `${SITE.siteUrl}${getEntryPath(work)}`;
+
+  return {
+    key,
+    type: citation.doi || citation.venue ? 'article' : 'report',
+    title: work.data.title,
+    authors,
+    year,
+    month: work.data.date.getUTCMonth() + 1,
+    venue: citation.venue,
+    publisher: citation.publisher,
+    doi: citation.doi,
+    ssrnId: citation.ssrnId,
+    url,
+    abstract,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Export formats
+// ---------------------------------------------------------------------------
+
+function escapeBibTeX(value: string): string {
+  return value.replace(/([{}&%$#_])/g, '\\$1');
+}
+
+/**
+ * Format a citation as a BibTeX entry
+ */
+export function toBibTeX(citation: Citation): string {
+  const fields: [string, string | undefined][] = [
+    ['title', `{${escapeBibTeX(citation.title)}}`],
+    ['author', citation.authors.map((a) => (a.given ? `${a.family}, ${a.given}` : a.family)).join(' and ')],
+    ['year', String(citation.year)],
+    [citation.type === 'article' ? 'journal' : 'institution', citation.venue],
+    ['publisher', citation.publisher],
+    ['doi', citation.doi],
+    ['url', citation.url],
+    ['note', citation.ssrnId ? `SSRN ${citation.ssrnId}` : undefined],
+    ['abstract', citation.abstract],
+  ];
+
+  const body = fields
+    .filter((field): field is [string, string] => Boolean(field[1]))
+    .map(([name, value]) => `  ${name} = {${name === 'title' ? value : escapeBibTeX(value)}}`)
+    .join(',\n');
+
+  return `@${citation.type === 'article' ? 'article' : 'techreport'}{${citation.key},\n${body}\n}\n`;
+}
+
+/**
+ * Format a citation as an RIS record
+ */
+export function toRIS(citation: Citation): string {
+  const lines: [string, string | undefined][] = [
+    ['TY', citation.type === 'article' ? 'JOUR' : 'RPRT'],
+    ['TI', citation.title],
+    ...citation.authors.map((a): [string, string] => ['AU', a.given ? `${a.family}, ${a.given}` : a.family]),
+    ['PY', String(citation.year)],
+    ['DA', `${citation.year}/${String(citation.month).padStart(2, '0')}`],
+    ['JO', citation.venue],
+    ['PB', citation.publisher],
+    ['DO', citation.doi],
+    ['UR', citation.url],
+    ['AB', citation.abstract],
+    ['ER', ''],
+  ];
+
+  return lines
+    .filter(([tag, value]) => tag === 'ER' || Boolean(value))
+    .map(([tag, value]) => `${tag}  - ${value}`.trimEnd())
+    .join('\n') + '\n';
+}
+
+/**
+ * Format a citation as a CSL-JSON item
+ */
+export function toCSL(citation: Citation): Record<string, unknown> {
+  return {
+    id: citation.key,
+    type: citation.type === 'article' ? 'article-journal' : 'report',
+    title: citation.title,
+    author: citation.authors.map((a) => (a.given ? { family: a.family, given: a.given } : { literal: a.family })),
+    issued: { 'date-parts': [[citation.year, citation.month]] },
+    'container-title': citation.type === 'article' ? citation.venue : undefined,
+    publisher: citation.publisher || (citation.type === 'report' ? citation.venue : undefined),
+    DOI: citation.doi,
+    URL: citation.url,
+    abstract: citation.abstract,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reference styles
+// ---------------------------------------------------------------------------
+
+function initials(given: string): string {
+  return given
+    .split(/[\s-]+/)
+    .filter(Boolean)
+    .map((name) => `${name[0]}.`)
+    .join(' ');
+}
+
+function joinNames(names: string[], conjunction: string): string {
+  if (names.length <= 1) return names.join('');
+  if (names.length === 2) return `${names[0]}${conjunction === '&' ? ', & ' : ` ${conjunction} `}${names[1]}`;
+  return `${names.slice(0, -1).join(', ')}, ${conjunction} ${names[names.length - 1]}`;
+}
+
+function sentence(value: string): string {
+  return /[.?!]$/.test(value) ? value : `${value}.`;
+}
+
+/**
+ * Format a citation in APA (7th edition) style
+ */
+export function formatAPA(citation: Citation): string {
+  const authors = joinNames(
+    citation.authors.map((a) => (a.given ? `${a.family}, ${initials(a.given)}` : a.family)),
+    '&'
+  );
+  const source = [citation.venue, citation.publisher].filter(Boolean).join(', ');
+
+  return [
+    `${sentence(authors)} (${citation.year}).`,
+    sentence(citation.title),
+    source ? sentence(source) : '',
+    citation.url,
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Format a citation in MLA (9th edition) style
+ */
+export function formatMLA(citation: Citation): string {
+  const [first, ...rest] = citation.authors;
+  const firstName = first ? (first.given ? `${first.family}, ${first.given}` : first.family) : '';
+  const authors =
+    citation.authors.length > 2
+      ? `${firstName}, et al`
+      : citation.authors.length === 2
+        ? `${firstName}, and ${[rest[0].given, rest[0].family].filter(Boolean).join(' ')}`
+        : firstName;
+  const container = [citation.venue, citation.publisher, String(citation.year)].filter(Boolean).join(', ');
+
+  return `${sentence(authors)} “${sentence(citation.title)}” ${container}, ${citation.url.replace(/^https?:\/\//, '').replace(/\/$/, '')}.`;
+}
+
+/**
+ * Format a citation in Chicago (author-date) style
+ */
+export function formatChicago(citation: Citation): string {
+  const names = citation.authors.map((a, i) =>
+    !a.given ? a.family : i === 0 ? `${a.family}, ${a.given}` : `${a.given} ${a.family}`
+  );
+  const source = [citation.venue, citation.publisher].filter(Boolean).join(', ');
+
+  return [
+    `${sentence(joinNames(names, 'and'))} ${citation.year}.`,
+    `“${sentence(citation.title)}”`,
+    source ? sentence(source) : '',
+    `${citation.url}.`,
+  ].filter(Boolean).join(' ');
+}
@@ -0,0 +1,87 @@
+import { z } from 'astro/zod';
+import type { Locale } from '../config/i18n';
+import { getLocale } from './i18n';
+
+export const CONTACT_FIELDS = ['name', 'email', 'subject', 'message'] as const;
+
+export type ContactField = (typeof CONTACT_FIELDS)[number];
+
+/**
+ * Outcome of a submission, shown above the form
+ * 'sent' is also reported for submissions dropped as spam, so bots learn nothing.
+ */
+export const CONTACT_STATUSES = ['sent', 'invalid', 'rate-limited', 'failed'] as const;
+
+export type ContactStatus = (typeof CONTACT_STATUSES)[number];
+
+// Hidden field that people never see and bots tend to fill in
+export const HONEYPOT_FIELD = 'website';
+
+// Hidden field holding the time the form was rendered
+export const STARTED_AT_FIELD = 'startedAt';
+
+// Submissions faster than this after the form was rendered are treated as bots
+export const MIN_FILL_TIME_MS = 3000;
+
+export const contactSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  email: z.string().trim().max(254).email(),
+  subject: z.string().trim().max(150).optional().default(''),
+  message: z.string().trim().min(10).max(5000),
+});
+
+export type ContactMessage = z.infer<typeof contactSchema>;
+
+/**
+ * Read the language of the page a form was sent from
+ * @returns The form's `lang` field, or the default locale
+ */
+export function getFormLocale(form: FormData): Locale {
+  return getLocale(String(form.get('lang') ?? ''));
+}
+
+/**
+ * Check the honeypot and time-trap fields
+ * @param form - Submitted form
+ * @param now - Time of the submission
+ * @returns Whether the submission looks automated
+ */
+export function isSpam(form: FormData, now = Date.now()): boolean {
+  if (String(form.get(HONEYPOT_FIELD) ?? '') !== '') return true;
+
+  // A missing or malformed timestamp counts as too fast
+  const startedAt = Number(form.get(STARTED_AT_FIELD) || NaN);
+  return !(now - startedAt >= MIN_FILL_TIME_MS);
+}
+
+/**
+ * Validate a submitted contact form
+ * @returns The trimmed message, or the fields that failed validation
+ */
+export function parseContactForm(
+  form: FormData
+): { success: true; data: ContactMessage } | { success: false; fields: ContactField[] } {
+  const result = contactSchema.safeParse(
+    Object.fromEntries(CONTACT_FIELDS.map((field) => [field, String(form.get(field) ?? '')]))
+  );
+
+  if (result.success) return { success: true, data: result.data };
+
+  const fields = new Set(result.error.issues.map((issue) => issue.path[0] as ContactField));
+  return { success: false, fields: CONTACT_FIELDS.filter((field) => fields.has(field)) };
+}
+
+/**
+ * Read the result of a submission from the contact page URL
+ * Without JavaScript the endpoint redirects back with `?status=...&fields=...`.
+ * @returns Status (if any) and the fields to mark as invalid
+ */
+export function getContactResult(url: URL): { status?: ContactStatus; fields: ContactField[] } {
+  const status = url.searchParams.get('status');
+  const fields = (url.searchParams.get('fields') ?? '').split(',');
+
+  return {
+    status: (CONTACT_STATUSES as readonly string[]).includes(status ?? '') ? (status as ContactStatus) : undefined,
+    fields: CONTACT_FIELDS.filter((field) => fields.includes(field)),
+  };
+}
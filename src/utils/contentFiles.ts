@@ -0,0 +1,70 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { LineCounter, parseDocument, type Document } from 'yaml';
+import { DEFAULT_LOCALE } from '../config/i18n';
+
+// Reads content entries straight from disk, for code that runs outside Astro
+// (the content lint and the newsletter digest) and has no `getCollection`.
+
+export const CONTENT_COLLECTIONS = ['blog', 'works'] as const;
+
+export type ContentCollectionName = (typeof CONTENT_COLLECTIONS)[number];
+
+/**
+ * A parsed entry file
+ */
+export interface ContentFile {
+  file: string; // Relative to the project root, e.g. 'src/content/blog/my-post.mdx'
+  collection: ContentCollectionName;
+  slug: string;
+  lang: string; // Frontmatter `lang`, else the default locale
+  data: Record<string, unknown>;
+  frontmatter: Document; // For looking up the line of a value
+  lineCounter: LineCounter;
+  body: string;
+  bodyLine: number; // File line of the first body line
+}
+
+// `---` fenced YAML at the top of a file
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[^\n]*\n?/;
+
+/**
+ * Read and parse every entry of some collections
+ * @param root - Project root
+ * @param collections - Collections to read (default: all)
+ * @returns Parsed files sorted by path, with slugs as Astro derives them
+ *   (frontmatter `slug`, else the file path)
+ */
+export async function loadContentFiles(
+  root: string,
+  collections: readonly ContentCollectionName[] = CONTENT_COLLECTIONS
+): Promise<ContentFile[]> {
+  const files: ContentFile[] = [];
+
+  for (const collection of collections) {
+    const dir = path.join(root, 'src', 'content', collection);
+    const names = (await fs.readdir(dir, { recursive: true })).filter((name) => /\.mdx?$/.test(name)).sort();
+
+    for (const name of names) {
+      const source = await fs.readFile(path.join(dir, name), 'utf-8');
+      const match = source.match(FRONTMATTER_PATTERN);
+      const lineCounter = new LineCounter();
+      const frontmatter = parseDocument(match?.[1] ?? '', { lineCounter });
+      const data = (frontmatter.toJS() ?? {}) as Record<string, unknown>;
+
+      files.push({
+        file: path.posix.join('src', 'content', collection, name.split(path.sep).join('/')),
+        collection,
+        slug: typeof data.slug === 'string' ? data.slug : name.replace(/\.mdx?$/, '').split(path.sep).join('/'),
+        lang: typeof data.lang === 'string' ? data.lang : DEFAULT_LOCALE,
+        data,
+        frontmatter,
+        lineCounter,
+        body: source.slice(match?.[0].length ?? 0),
+        bodyLine: match ? match[0].split('\n').length : 1,
+      });
+    }
+  }
+
+  return files;
+}
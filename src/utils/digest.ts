@@ -0,0 +1,141 @@
+import { SITE } from '../config/site';
+import { DEFAULT_LOCALE, LOCALE_INFO, type Locale } from '../config/i18n';
+import { useTranslations } from '../i18n/ui';
+import { isLocale, pickTranslations } from './i18n';
+import { isPublished } from './publish';
+import { loadContentFiles } from './contentFiles';
+import { escapeHtml, getOneClickUnsubscribeUrl, getUnsubscribeUrl, renderEmailHtml } from './newsletter';
+import type { MailMessage } from './mail';
+
+/**
+ * A blog post as listed in a digest
+ */
+export interface DigestPost {
+  key: string; // Translation key, shared by all language versions
+  lang: Locale;
+  title: string;
+  description: string;
+  pubDate: Date;
+  path: string; // e.g. '/en/blog/my-post'
+}
+
+/**
+ * Read the published posts of the blog collection
+ * @param root - Project root
+ * @returns Posts in all languages, newest first
+ */
+export async function loadDigestPosts(root: string): Promise<DigestPost[]> {
+  const posts: DigestPost[] = [];
+
+  for (const { data, slug, lang: fileLang } of await loadContentFiles(root, ['blog'])) {
+    const pubDate = new Date(data.pubDate as string);
+
+    if (typeof data.title !== 'string' || Number.isNaN(pubDate.getTime())) continue;
+    if (!isPublished({ draft: data.draft === true, pubDate })) continue;
+
+    const lang = isLocale(fileLang) ? fileLang : DEFAULT_LOCALE;
+
+    posts.push({
+      key: typeof data.translationKey === 'string' ? data.translationKey : slug,
+      lang,
+      title: data.title,
+      description: typeof data.description === 'string' ? data.description : '',
+      pubDate,
+      path: `/${lang}/blog/${slug}`,
+    });
+  }
+
+  return posts.sort((a, b) => b.pubDate.getTime() - a.pubDate.getTime());
+}
+
+/**
+ * Pick the posts for a digest in one language
+ * @param posts - Posts from `loadDigestPosts`
+ * @param locale - Language of the recipients
+ * @param since - Only posts published on or after this time
+ * @param excludeKeys - Posts already sent in an earlier digest
+ * @returns One version per post, preferring the locale
+ */
+export function selectDigestPosts(
+  posts: DigestPost[],
+  locale: Locale,
+  since: Date,
+  excludeKeys: string[] = []
+): DigestPost[] {
+  const recent = posts.filter((post) => post.pubDate >= since && !excludeKeys.includes(post.key));
+  return pickTranslations(recent, locale, (post) => ({ key: post.key, lang: post.lang }));
+}
+
+/**
+ * Render a digest email for one subscriber
+ * @param options.posts - Posts from `selectDigestPosts`
+ * @param options.locale - Language of the subscriber
+ * @param options.unsubscribeToken - The subscriber's token, for the unsubscribe link
+ * @param options.site - Absolute site URL without trailing slash
+ */
+export function renderDigestEmail({
+  posts,
+  locale,
+  unsubscribeToken,
+  site = SITE.siteUrl,
+}: {
+  posts: DigestPost[];
+  locale: Locale;
+  unsubscribeToken: string;
+  site?: string;
+}): Omit<MailMessage, 'to'> {
+  const t = useTranslations(locale);
+  const dateFormat = new Intl.DateTimeFormat(LOCALE_INFO[locale].intl, { dateStyle: 'long', timeZone: 'UTC' });
+  const unsubscribeUrl = getUnsubscribeUrl(site, locale, unsubscribeToken);
+
+  const subject = t('newsletter.digest.subject', { site: SITE.title, count: posts.length });
+  const intro = t('newsletter.digest.intro', { count: posts.length });
+  const read = t('newsletter.digest.read');
+  const footer = t('newsletter.digest.footer', { site: SITE.title });
+  const unsubscribe = t('newsletter.digest.unsubscribe');
+
+  const text = [
+    intro,
+    '',
+    ...posts.flatMap((post) => [
+      post.title,
+      dateFormat.format(post.pubDate),
+      ...(post.description ? [post.description] : []),
+      `${site}${post.path}`,
+      '',
+    ]),
+    '--',
+    footer,
+    `${unsubscribe}: ${unsubscribeUrl}`,
+  ].join('\n');
+
+  const items = posts
+    .map(
+      (post) => `    <div style="margin:0 0 24px">
+      <h2 style="margin:0 0 4px;font-size:18px"><a href="${escapeHtml(`${site}${post.path}`)}" style="color:#2563eb;text-decoration:none">${escapeHtml(post.title)}</a></h2>
+      <p style="margin:0 0 8px;color:#6b7280;font-size:14px">${escapeHtml(dateFormat.format(post.pubDate))}</p>
+      ${post.description ? `<p style="margin:0 0 8px">${escapeHtml(post.description)}</p>` : ''}
+      <a href="${escapeHtml(`${site}${post.path}`)}" style="color:#2563eb;font-size:14px">${escapeHtml(read)} →</a>
+    </div>`
+    )
+    .join('\n');
+
+  const html = renderEmailHtml(
+    locale,
+    `    <p>${escapeHtml(intro)}</p>
+${items}
+    <p style="margin:32px 0 0;padding-top:16px;border-top:1px solid #e5e7eb;color:#6b7280;font-size:13px">
+      ${escapeHtml(footer)} <a href="${escapeHtml(unsubscribeUrl)}" style="color:#6b7280">${escapeHtml(unsubscribe)}</a>
+    </p>`
+  );
+
+  return {
+    subject,
+    text,
+    html,
+    headers: {
+      'List-Unsubscribe': `<${getOneClickUnsubscribeUrl(site, locale, unsubscribeToken)}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  };
+}
@@ -0,0 +1,264 @@
+import rss from '@astrojs/rss';
+import type { APIContext } from 'astro';
+import type { CollectionEntry } from 'astro:content';
+import { experimental_AstroContainer as AstroContainer } from 'astro/container';
+import mdxRenderer from '@astrojs/mdx/server.js';
+import reactRenderer from '@astrojs/react/server.js';
+import { SITE } from '../config/site';
+import { DEFAULT_LOCALE, LOCALE_INFO, type Locale } from '../config/i18n';
+import { mdxComponents } from '../components/mdx';
+import { getEntryPath } from './translations';
+import { resolveTags } from './filterByTag';
+
+/**
+ * A feed entry, independent of the output format
+ */
+export interface FeedItem {
+  id: string;
+  title: string;
+  description: string;
+  link: string; // Absolute URL
+  pubDate: Date;
+  updatedDate?: Date;
+  author: string;
+  categories: string[];
+  content: string; // Rendered HTML with absolute URLs
+}
+
+/**
+ * Feed metadata shared by RSS, Atom and JSON Feed outputs
+ */
+export interface FeedOptions {
+  title: string;
+  description: string;
+  site: string; // Absolute site URL
+  feedPath: string; // Path of the feed itself, e.g. '/atom.xml'
+  homePath?: string; // Path of the HTML page the feed mirrors (default: '/')
+  locale?: Locale; // Language of the feed (default: the default locale)
+  items: FeedItem[];
+}
+
+// Path of the XSL stylesheet that renders RSS feeds in the browser
+export const FEED_STYLESHEET = '/rss-styles.xsl';
+
+// One container per build, able to render MDX and any React components inside it
+let containerPromise: Promise<AstroContainer> | null = null;
+
+async function getContainer(): Promise<AstroContainer> {
+  if (!containerPromise) {
+    containerPromise = AstroContainer.create().then((container) => {
+      container.addServerRenderer({ name: 'astro:jsx', renderer: mdxRenderer });
+      container.addServerRenderer({ name: '@astrojs/react', renderer: reactRenderer });
+      return container;
+    });
+  }
+  return containerPromise;
+}
+
+/**
+ * Get the absolute site URL for an endpoint
+ * @param context - API context of the endpoint
+ * @returns Site URL without trailing slash
+ */
+export function getSiteUrl(context: APIContext): string {
+  return String(context.site || SITE.siteUrl).replace(/\/$/, '');
+}
+
+/**
+ * Rewrite root-relative href/src attributes to absolute URLs
+ * Feed readers have no base URL to resolve them against
+ * @param html - Rendered HTML
+ * @param site - Absolute site URL
+ * @returns HTML with absolute URLs
+ */
+export function absolutizeUrls(html: string, site: string): string {
+  return html.replace(/(href|src)="\/(?!\/)/g, `$1="${site}/`);
+}
+
+/**
+ * Render a content entry to an HTML string
+ * @param entry - Blog post or work
+ * @param site - Absolute site URL used to resolve relative links
+ * @returns Rendered HTML
+ */
+export async function renderEntryHtml(
+  entry: CollectionEntry<'blog'> | CollectionEntry<'works'>,
+  site: string
+): Promise<string> {
+  const container = await getContainer();
+  const { Content } = await entry.render();
+  const html = await container.renderToString(Content, { props: { components: mdxComponents } });
+  return absolutizeUrls(html, site);
+}
+
+/**
+ * Convert blog posts to feed items with full rendered content
+ * @param posts - Blog posts, already filtered and sorted
+ * @param site - Absolute site URL
+ * @returns Feed items
+ */
+export async function getBlogFeedItems(
+  posts: CollectionEntry<'blog'>[],
+  site: string
+): Promise<FeedItem[]> {
+  return Promise.all(
+    posts.map(async (post) => ({
+      id: `${site}${getEntryPath(post)}/`,
+      title: post.data.title,
+      description: post.data.description,
+      link: `${site}${getEntryPath(post)}/`,
+      pubDate: post.data.pubDate,
+      updatedDate: post.data.updatedDate,
+      author: post.data.author || SITE.author,
+      categories: resolveTags(post.data.tags || []).map((tag) => tag.name),
+      content: await renderEntryHtml(post, site),
+    }))
+  );
+}
+
+/**
+ * Convert works to feed items with full rendered content
+ * @param works - Works, already sorted
+ * @param site - Absolute site URL
+ * @returns Feed items
+ */
+export async function getWorksFeedItems(
+  works: CollectionEntry<'works'>[],
+  site: string
+): Promise<FeedItem[]> {
+  return Promise.all(
+    works.map(async (work) => ({
+      id: `${site}${getEntryPath(work)}/`,
+      title: work.data.title,
+      description: work.data.description,
+      link: `${site}${getEntryPath(work)}/`,
+      pubDate: work.data.date,
+      author: SITE.author,
+      categories: [work.data.type, ...resolveTags(work.data.tags || []).map((tag) => tag.name)],
+      content: await renderEntryHtml(work, site),
+    }))
+  );
+}
+
+/**
+ * Get the language tag of a feed, e.g. 'de-DE'
+ */
+function getFeedLanguage(locale: Locale = DEFAULT_LOCALE): string {
+  return LOCALE_INFO[locale].intl;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Build an RSS 2.0 response with full content and the browser stylesheet
+ * @param options - Feed metadata and items
+ * @returns RSS response
+ */
+export function createRssFeed(options: FeedOptions): Promise<Response> {
+  return rss({
+    title: options.title,
+    description: options.description,
+    site: `${options.site}${options.homePath || '/'}`,
+    items: options.items.map((item) => ({
+      title: item.title,
+      description: item.description,
+      pubDate: item.pubDate,
+      link: item.link,
+      // RSS <author> must be an email address, so the name goes in <dc:creator>
+      customData: `<dc:creator>${escapeXml(item.author)}</dc:creator>`,
+      categories: item.categories,
+      content: item.content,
+    })),
+    xmlns: { dc: 'http://purl.org/dc/elements/1.1/' },
+    customData: `<language>${getFeedLanguage(options.locale).toLowerCase()}</language>`,
+    stylesheet: FEED_STYLESHEET,
+  });
+}
+
+/**
+ * Build an Atom 1.0 response
+ * @param options - Feed metadata and items
+ * @returns Atom response
+ */
+export function createAtomFeed(options: FeedOptions): Response {
+  const { title, description, site, feedPath, homePath = '/', locale, items } = options;
+
+  const updated = items.reduce(
+    (latest, item) => {
+      const date = item.updatedDate || item.pubDate;
+      return date > latest ? date : latest;
+    },
+    items[0]?.pubDate || new Date()
+  );
+
+  const entries = items.map((item) => `
+  <entry>
+    <id>${escapeXml(item.id)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(item.link)}"/>
+    <published>${item.pubDate.toISOString()}</published>
+    <updated>${(item.updatedDate || item.pubDate).toISOString()}</updated>
+    <author><name>${escapeXml(item.author)}</name></author>
+    <summary>${escapeXml(item.description)}</summary>
+    <content type="html">${escapeXml(item.content)}</content>${item.categories
+      .map((category) => `\n    <category term="${escapeXml(category)}"/>`)
+      .join('')}
+  </entry>`).join('');
+
+  const xml = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${getFeedLanguage(locale).toLowerCase()}">
+  <id>${escapeXml(`${site}${feedPath}`)}</id>
+  <title>${escapeXml(title)}</title>
+  <subtitle>${escapeXml(description)}</subtitle>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(`${site}${feedPath}`)}"/>
+  <link rel="alternate" type="text/html" href="${escapeXml(`${site}${homePath}`)}"/>
+  <updated>${updated.toISOString()}</updated>
+  <author><name>${escapeXml(SITE.author)}</name></author>${entries}
+</feed>
+`;
+
+  return new Response(xml, {
+    headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' },
+  });
+}
+
+/**
+ * Build a JSON Feed 1.1 response
+ * @param options - Feed metadata and items
+ * @returns JSON Feed response
+ */
+export function createJsonFeed(options: FeedOptions): Response {
+  const { title, description, site, feedPath, homePath = '/', locale, items } = options;
+
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title,
+    description,
+    home_page_url: `${site}${homePath}`,
+    feed_url: `${site}${feedPath}`,
+    language: getFeedLanguage(locale),
+    authors: [{ name: SITE.author }],
+    items: items.map((item) => ({
+      id: item.id,
+      url: item.link,
+      title: item.title,
+      summary: item.description,
+      content_html: item.content,
+      date_published: item.pubDate.toISOString(),
+      date_modified: item.updatedDate?.toISOString(),
+      authors: [{ name: item.author }],
+      tags: item.categories,
+    })),
+  };
+
+  return new Response(JSON.stringify(feed), {
+    headers: { 'Content-Type': 'application/feed+json; charset=utf-8' },
+  });
+}
@@ -1,3 +1,5 @@
+import { TAGS, type TagDefinition } from '../config/tags';
+
 /**
  * Type for items that have a tags property
  */
@@ -8,77 +10,129 @@ export interface TaggedItem {
   };
 }
 
+/**
+ * A tag as shown on the site
+ * Registered tags carry their registry name and description; unknown tags keep
+ * their frontmatter spelling and a slug derived from it.
+ */
+export interface ResolvedTag {
+  name: string;
+  slug: string;
+  description?: TagDefinition['description'];
+  registered: boolean;
+}
+
+// Registry entries by the slug of every accepted spelling (name, slug and aliases)
+const TAG_LOOKUP = new Map(
+  TAGS.flatMap((tag) => [tag.name, tag.slug, ...(tag.aliases || [])].map((spelling) => [slugifyTag(spelling), tag] as const))
+);
+
+/**
+ * Look up a tag in the registry
+ * @param tag - Tag as written in frontmatter (any capitalization, or an alias)
+ * @returns The canonical tag; unknown tags resolve to themselves
+ */
+export function resolveTag(tag: string): ResolvedTag {
+  const definition = TAG_LOOKUP.get(slugifyTag(tag));
+
+  return definition
+    ? { name: definition.name, slug: definition.slug, description: definition.description, registered: true }
+    : { name: tag, slug: slugifyTag(tag), registered: false };
+}
+
+/**
+ * Resolve the tags of one item, dropping duplicates (e.g. "AI" next to its alias)
+ * @param tags - Tags as written in frontmatter
+ * @returns Canonical tags in frontmatter order
+ */
+export function resolveTags(tags: string[]): ResolvedTag[] {
+  const resolved = new Map<string, ResolvedTag>();
+
+  tags.map(resolveTag).forEach((tag) => {
+    if (tag.slug && !resolved.has(tag.slug)) resolved.set(tag.slug, tag);
+  });
+
+  return Array.from(resolved.values());
+}
+
+/**
+ * Get the canonical tag slugs of an item
+ */
+function getTagSlugs(item: TaggedItem): Set<string> {
+  return new Set(item.data.tags.map((tag) => resolveTag(tag).slug));
+}
+
 /**
  * Filter items by a specific tag
  * @param items - Array of items with tags property
- * @param tag - Tag to filter by (case-insensitive)
+ * @param tag - Tag to filter by (any spelling: name, slug or alias)
  * @returns Filtered array containing only items with the specified tag
  */
 export function filterByTag<T extends TaggedItem>(items: T[], tag: string): T[] {
-  const lowerTag = tag.toLowerCase();
-  return items.filter((item) =>
-    item.data.tags.some((t) => t.toLowerCase() === lowerTag)
-  );
+  const { slug } = resolveTag(tag);
+  return items.filter((item) => getTagSlugs(item).has(slug));
 }
 
 /**
  * Filter items by multiple tags (items must have ALL tags)
  * @param items - Array of items with tags property
- * @param tags - Array of tags to filter by (case-insensitive)
+ * @param tags - Array of tags to filter by (any spelling: name, slug or alias)
  * @returns Filtered array containing only items with all specified tags
  */
 export function filterByAllTags<T extends TaggedItem>(
   items: T[],
   tags: string[]
 ): T[] {
-  const lowerTags = tags.map((t) => t.toLowerCase());
-  return items.filter((item) =>
-    lowerTags.every((tag) =>
-      item.data.tags.some((t) => t.toLowerCase() === tag)
-    )
-  );
+  const slugs = tags.map((tag) => resolveTag(tag).slug);
+  return items.filter((item) => {
+    const itemSlugs = getTagSlugs(item);
+    return slugs.every((slug) => itemSlugs.has(slug));
+  });
 }
 
 /**
  * Filter items by multiple tags (items must have ANY of the tags)
  * @param items - Array of items with tags property
- * @param tags - Array of tags to filter by (case-insensitive)
+ * @param tags - Array of tags to filter by (any spelling: name, slug or alias)
  * @returns Filtered array containing items with at least one of the specified tags
  */
 export function filterByAnyTag<T extends TaggedItem>(
   items: T[],
   tags: string[]
 ): T[] {
-  const lowerTags = tags.map((t) => t.toLowerCase());
-  return items.filter((item) =>
-    item.data.tags.some((t) => lowerTags.includes(t.toLowerCase()))
-  );
+  const slugs = tags.map((tag) => resolveTag(tag).slug);
+  return items.filter((item) => {
+    const itemSlugs = getTagSlugs(item);
+    return slugs.some((slug) => itemSlugs.has(slug));
+  });
 }
 
 /**
  * Get all unique tags from a collection of items
+ * Spellings that resolve to the same canonical tag are merged.
  * @param items - Array of items with tags property
- * @returns Sorted array of unique tags
+ * @returns Canonical tags, sorted by name
  */
-export function getAllTags<T extends TaggedItem>(items: T[]): string[] {
-  const tagSet = new Set<string>();
+export function getAllTags<T extends TaggedItem>(items: T[]): ResolvedTag[] {
+  const tags = new Map<string, ResolvedTag>();
 
   items.forEach((item) => {
-    item.data.tags.forEach((tag) => {
-      tagSet.add(tag);
+    resolveTags(item.data.tags).forEach((tag) => {
+      if (!tags.has(tag.slug)) tags.set(tag.slug, tag);
     });
   });
 
   // Return sorted array (case-insensitive sort)
-  return Array.from(tagSet).sort((a, b) =>
-    a.toLowerCase().localeCompare(b.toLowerCase())
+  return Array.from(tags.values()).sort((a, b) =>
+    a.name.toLowerCase().localeCompare(b.name.toLowerCase())
   );
 }
 
 /**
  * Get tag counts for a collection of items
+ * Each item counts once per canonical tag, however many spellings it uses.
  * @param items - Array of items with tags property
- * @returns Object with tag names as keys and counts as values
+ * @returns Object with canonical tag slugs as keys and counts as values
  */
 export function getTagCounts<T extends TaggedItem>(
   items: T[]
@@ -86,10 +140,28 @@ export function getTagCounts<T extends TaggedItem>(
   const counts: Record<string, number> = {};
 
   items.forEach((item) => {
-    item.data.tags.forEach((tag) => {
-      counts[tag] = (counts[tag] || 0) + 1;
+    resolveTags(item.data.tags).forEach(({ slug }) => {
+      counts[slug] = (counts[slug] || 0) + 1;
     });
   });
 
   return counts;
 }
+
+/**
+ * Convert a tag into a URL-safe slug
+ * Letters and digits of any script are kept, minus accents like é and ü;
+ * everything else becomes a hyphen, so symbol-only tags get an empty slug.
+ * @param tag - Tag to convert (e.g., "Web Development", "Künstliche Intelligenz", "機械学習")
+ * @returns Lowercase, hyphenated slug (e.g., "web-development", "kunstliche-intelligenz", "機械学習")
+ */
+export function slugifyTag(tag: string): string {
+  return tag
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .normalize('NFC');
+}
@@ -1,12 +1,16 @@
+import { DEFAULT_LOCALE, LOCALE_INFO, type Locale } from '../config/i18n';
+
 /**
  * Format a date to a readable string
  * @param date - Date to format (Date object or string)
- * @param format - Format style ('long', 'medium', 'short')
+ * @param format - Format style ('long', 'medium', 'short', 'month')
+ * @param locale - Locale of the output (default: the default locale)
  * @returns Formatted date string
  */
 export function formatDate(
   date: Date | string,
-  format: 'long' | 'medium' | 'short' = 'medium'
+  format: 'long' | 'medium' | 'short' | 'month' = 'medium',
+  locale: Locale = DEFAULT_LOCALE
 ): string {
   const dateObj = typeof date === 'string' ? new Date(date) : date;
 
@@ -22,7 +26,7 @@ export function formatDate(
 
   switch (format) {
     case 'long':
-      // Example: "December 18, 2025"
+      // Example: "December 18, 2025" / "18. Dezember 2025"
       options.year = 'numeric';
       options.month = 'long';
       options.day = 'numeric';
@@ -39,43 +43,46 @@ export function formatDate(
       options.month = 'numeric';
       options.day = 'numeric';
       break;
+    case 'month':
+      // Example: "December 2025"
+      options.year = 'numeric';
+      options.month = 'long';
+      break;
   }
 
-  return dateObj.toLocaleDateString('en-US', options);
+  return new Intl.DateTimeFormat(LOCALE_INFO[locale].intl, options).format(dateObj);
 }
 
+// Largest unit first; a difference is shown in the first unit it reaches
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['week', 7 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+];
+
 /**
- * Format a date relative to now (e.g., "2 days ago", "3 months ago")
+ * Format a date relative to now (e.g., "2 days ago", "vor 3 Monaten")
  * @param date - Date to format
- * @returns Relative time string
+ * @param locale - Locale of the output (default: the default locale)
+ * @returns Relative time string ("just now"/"gerade eben" under a minute)
  */
-export function formatRelativeDate(date: Date | string): string {
+export function formatRelativeDate(date: Date | string, locale: Locale = DEFAULT_LOCALE): string {
   const dateObj = typeof date === 'string' ? new Date(date) : date;
-  const now = new Date();
-  const diffMs = now.getTime() - dateObj.getTime();
-  const diffSeconds = Math.floor(diffMs / 1000);
-  const diffMinutes = Math.floor(diffSeconds / 60);
-  const diffHours = Math.floor(diffMinutes / 60);
-  const diffDays = Math.floor(diffHours / 24);
-  const diffWeeks = Math.floor(diffDays / 7);
-  const diffMonths = Math.floor(diffDays / 30);
-  const diffYears = Math.floor(diffDays / 365);
+  const diffSeconds = Math.floor((Date.now() - dateObj.getTime()) / 1000);
+  const formatter = new Intl.RelativeTimeFormat(LOCALE_INFO[locale].intl, { numeric: 'auto' });
 
-  if (diffYears > 0) {
-    return `${diffYears} ${diffYears === 1 ? 'year' : 'years'} ago`;
-  } else if (diffMonths > 0) {
-    return `${diffMonths} ${diffMonths === 1 ? 'month' : 'months'} ago`;
-  } else if (diffWeeks > 0) {
-    return `${diffWeeks} ${diffWeeks === 1 ? 'week' : 'weeks'} ago`;
-  } else if (diffDays > 0) {
-    return `${diffDays} ${diffDays === 1 ? 'day' : 'days'} ago`;
-  } else if (diffHours > 0) {
-    return `${diffHours} ${diffHours === 1 ? 'hour' : 'hours'} ago`;
-  } else if (diffMinutes > 0) {
-    return `${diffMinutes} ${diffMinutes === 1 ? 'minute' : 'minutes'} ago`;
-  } else {
-    return 'just now';
+  for (const [unit, seconds] of RELATIVE_UNITS) {
+    const amount = Math.floor(diffSeconds / seconds);
+    if (amount > 0) {
+      return formatter.format(-amount, unit);
+    }
   }
+
+  // numeric: 'auto' turns "0 seconds ago" into the locale's "now"
+  return formatter.format(0, 'second');
 }
 
 /**
@@ -0,0 +1,87 @@
+import { DEFAULT_LOCALE, LOCALES, type Locale } from '../config/i18n';
+
+/**
+ * Check whether a string is a supported locale code
+ */
+export function isLocale(value: string | undefined): value is Locale {
+  return (LOCALES as readonly string[]).includes(value ?? '');
+}
+
+/**
+ * Resolve the locale of the current page
+ * @param value - Usually `Astro.currentLocale` or a route param
+ * @returns The locale, or the default locale for unprefixed routes
+ */
+export function getLocale(value: string | undefined): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+/**
+ * Read the locale prefix of a path
+ * @param path - Pathname, e.g. '/de/blog/my-post'
+ * @returns The locale, or undefined for unprefixed paths (feeds, search index)
+ */
+export function getLocaleFromPath(path: string): Locale | undefined {
+  const segment = path.split('/')[1];
+  return isLocale(segment) ? segment : undefined;
+}
+
+/**
+ * Remove the locale prefix from a path
+ * @param path - Pathname, e.g. '/de/blog/my-post'
+ * @returns Path without prefix, e.g. '/blog/my-post' ('/de/' becomes '/')
+ */
+export function stripLocale(path: string): string {
+  if (!getLocaleFromPath(path)) return path;
+  return path.replace(/^\/[^/]+/, '') || '/';
+}
+
+/**
+ * Prefix a root-relative path with a locale
+ * @param path - Unprefixed or prefixed path, e.g. '/blog' or '/en/blog'
+ * @param locale - Target locale
+ * @returns Localized path, e.g. '/de/blog' ('/' becomes '/de/')
+ */
+export function localizePath(path: string, locale: Locale): string {
+  const unprefixed = stripLocale(path);
+  return unprefixed === '/' ? `/${locale}/` : `/${locale}${unprefixed}`;
+}
+
+/**
+ * Static paths for pages that exist once per locale
+ * @returns One `{ params: { lang } }` per locale
+ */
+export function getLocaleStaticPaths() {
+  return LOCALES.map((lang) => ({ params: { lang } }));
+}
+
+/**
+ * Keep one version of every translated item, preferring the requested locale
+ * Items without a version in the locale fall back to the default locale, then to
+ * whichever version comes first. The order of first appearance is preserved.
+ * @param items - All versions of all items
+ * @param locale - Preferred locale
+ * @param getInfo - Translation key and locale of an item
+ * @returns One item per translation key
+ */
+export function pickTranslations<T>(
+  items: T[],
+  locale: Locale,
+  getInfo: (item: T) => { key: string; lang: Locale }
+): T[] {
+  const rank = (item: T) => {
+    const { lang } = getInfo(item);
+    return lang === locale ? 0 : lang === DEFAULT_LOCALE ? 1 : 2;
+  };
+
+  const picked = new Map<string, T>();
+  for (const item of items) {
+    const { key } = getInfo(item);
+    const current = picked.get(key);
+    if (current === undefined || rank(item) < rank(current)) {
+      picked.set(key, item);
+    }
+  }
+
+  return items.filter((item) => picked.get(getInfo(item).key) === item);
+}
@@ -0,0 +1,167 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import nodemailer from 'nodemailer';
+
+/**
+ * An email address, optionally with a display name
+ * Pass names separately so they are quoted, never pasted into the header.
+ */
+export type MailAddress = string | { name: string; address: string };
+
+/**
+ * An outgoing email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: MailAddress;
+  headers?: Record<string, string>; // Extra headers, e.g. List-Unsubscribe
+}
+
+/**
+ * Delivers mail; created by `getMailTransport` from the environment
+ */
+export interface MailTransport {
+  name: MailTransportName;
+  send(message: MailMessage): Promise<void>;
+}
+
+export const MAIL_TRANSPORTS = ['smtp', 'webhook', 'file', 'console'] as const;
+
+export type MailTransportName = (typeof MAIL_TRANSPORTS)[number];
+
+/**
+ * Mail settings, read from `astro:env/server` in API routes and from `process.env` in scripts
+ */
+export interface MailConfig {
+  MAIL_TRANSPORT?: string; // One of MAIL_TRANSPORTS (default: 'console' in development)
+  MAIL_FROM?: string; // Sender address (default: SITE.email)
+  SMTP_HOST?: string;
+  SMTP_PORT?: number | string; // 465 uses TLS from the start, other ports upgrade with STARTTLS
+  SMTP_USER?: string;
+  SMTP_PASSWORD?: string;
+  MAIL_WEBHOOK_URL?: string; // Receives each message as a JSON POST
+  MAIL_FILE?: string; // JSON Lines file the file transport appends to
+}
+
+/**
+ * Send mail through an SMTP server
+ */
+export function createSmtpTransport(config: MailConfig, from: string): MailTransport {
+  if (!config.SMTP_HOST) {
+    throw new Error('MAIL_TRANSPORT=smtp needs SMTP_HOST');
+  }
+
+  const port = Number(config.SMTP_PORT ?? 587);
+  const transporter = nodemailer.createTransport({
+    host: config.SMTP_HOST,
+    port,
+    secure: port === 465,
+    auth: config.SMTP_USER ? { user: config.SMTP_USER, pass: config.SMTP_PASSWORD } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
+
+/**
+ * POST each message as JSON to a URL, e.g. an automation service or a mail API relay
+ */
+export function createWebhookTransport(config: MailConfig, from: string): MailTransport {
+  const url = config.MAIL_WEBHOOK_URL;
+  if (!url) {
+    throw new Error('MAIL_TRANSPORT=webhook needs MAIL_WEBHOOK_URL');
+  }
+
+  return {
+    name: 'webhook',
+    async send(message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from, ...message }),
+      });
+      if (!response.ok) {
+        throw new Error(`Mail webhook responded with ${response.status} ${response.statusText}`);
+      }
+    },
+  };
+}
+
+/**
+ * Append each message as a JSON line to a local file, for development
+ */
+export function createFileTransport(config: MailConfig, from: string): MailTransport {
+  const file = path.resolve(config.MAIL_FILE || '.mail/outbox.jsonl');
+
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.appendFile(file, JSON.stringify({ date: new Date().toISOString(), from, ...message }) + '\n');
+    },
+  };
+}
+
+/**
+ * Format an address for display, quoting the name
+ */
+function formatAddress(address: MailAddress): string {
+  return typeof address === 'string' ? address : `${JSON.stringify(address.name)} <${address.address}>`;
+}
+
+/**
+ * Print each message to the server log, for development
+ */
+export function createConsoleTransport(from: string): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(
+        [
+          '--- mail ---',
+          `From: ${from}`,
+          `To: ${message.to}`,
+          ...(message.replyTo ? [`Reply-To: ${formatAddress(message.replyTo)}`] : []),
+          `Subject: ${message.subject}`,
+          '',
+          message.text,
+          '--- end ---',
+        ].join('\n')
+      );
+    },
+  };
+}
+
+/**
+ * Create the transport selected by MAIL_TRANSPORT
+ * @param config - Mail settings
+ * @param options.from - Fallback sender when MAIL_FROM is unset
+ * @param options.dev - Fall back to the console transport when MAIL_TRANSPORT is unset
+ * @returns The transport; throws if it is unknown, missing outside development or misconfigured
+ */
+export function getMailTransport(config: MailConfig, { from, dev }: { from: string; dev: boolean }): MailTransport {
+  const name = config.MAIL_TRANSPORT || (dev ? 'console' : undefined);
+  const sender = config.MAIL_FROM || from;
+
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport(config, sender);
+    case 'webhook':
+      return createWebhookTransport(config, sender);
+    case 'file':
+      return createFileTransport(config, sender);
+    case 'console':
+      return createConsoleTransport(sender);
+    case undefined:
+      throw new Error(`MAIL_TRANSPORT is not set; use one of ${MAIL_TRANSPORTS.join(', ')}`);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}"; use one of ${MAIL_TRANSPORTS.join(', ')}`);
+  }
+}
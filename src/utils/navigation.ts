@@ -0,0 +1,71 @@
+import { NAV_ITEMS, type NavItem } from '../config/site';
+import { DEFAULT_LOCALE, type Locale } from '../config/i18n';
+import { ui, useTranslations, type UIKey } from '../i18n/ui';
+import { getLocaleFromPath, localizePath, stripLocale } from './i18n';
+
+/**
+ * Strip the trailing slash from a path (the root stays '/')
+ */
+function normalizePath(path: string): string {
+  const normalized = path.replace(/\/+$/, '');
+  return normalized === '' ? '/' : normalized;
+}
+
+/**
+ * Check whether a navigation link points at the current page or one of its children
+ * @param currentPath - Pathname of the current page, e.g. '/en/blog/my-post/'
+ * @param href - Link target, e.g. '/en/blog'
+ * @returns True for the same path or a nested route within the same locale;
+ *   the (locale) root only matches itself
+ */
+export function isActivePath(currentPath: string, href: string): boolean {
+  if (getLocaleFromPath(currentPath) !== getLocaleFromPath(href)) return false;
+
+  const current = normalizePath(stripLocale(currentPath));
+  const target = normalizePath(stripLocale(href));
+
+  if (target === '/') return current === '/';
+  return current === target || current.startsWith(`${target}/`);
+}
+
+/**
+ * Translate a navigation item for a locale
+ * Root-relative links get the locale prefix; the label comes from the `nav.<id>`
+ * string when the dictionary has one, else the configured label is kept.
+ */
+function localizeNavItem(item: NavItem, locale: Locale): NavItem {
+  const key = `nav.${item.id}`;
+  const t = useTranslations(locale);
+
+  return {
+    ...item,
+    label: key in ui[locale] ? t(key as UIKey) : item.label,
+    href: item.href.startsWith('/') ? localizePath(item.href, locale) : item.href,
+  };
+}
+
+/**
+ * Get the navigation items for a surface, grouped and ordered
+ * @param options.mobile - Drop items flagged hiddenOnMobile
+ * @param options.locale - Locale of the labels and links (default: the default locale)
+ * @returns Primary and secondary items, each sorted by `order` (missing = 0, ties keep config order)
+ */
+export function getNavItems({ mobile = false, locale = DEFAULT_LOCALE }: { mobile?: boolean; locale?: Locale } = {}) {
+  const items = NAV_ITEMS
+    .filter((item) => !(mobile && item.hiddenOnMobile))
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    .map((item) => localizeNavItem(item, locale));
+
+  return {
+    primary: items.filter((item) => (item.group ?? 'primary') === 'primary'),
+    secondary: items.filter((item) => item.group === 'secondary'),
+  };
+}
+
+/**
+ * Check whether a navigation item should be highlighted
+ * @returns False for external links and items without an href (buttons)
+ */
+export function isActiveNavItem(item: Pick<NavItem, 'external'> & { href?: string }, currentPath: string): boolean {
+  return Boolean(item.href) && !item.external && isActivePath(currentPath, item.href!);
+}
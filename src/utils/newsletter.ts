@@ -0,0 +1,133 @@
+import { z } from 'astro/zod';
+import { SITE } from '../config/site';
+import type { Locale } from '../config/i18n';
+import { useTranslations } from '../i18n/ui';
+import { localizePath } from './i18n';
+import type { MailMessage } from './mail';
+
+/**
+ * Outcome of a newsletter action, shown on the newsletter page and next to the form
+ * 'pending' is also reported for addresses that are already subscribed and for
+ * submissions dropped as spam, so the form doesn't reveal who is on the list.
+ */
+export const NEWSLETTER_STATUSES = [
+  'pending',
+  'confirmed',
+  'unsubscribed',
+  'expired',
+  'invalid',
+  'rate-limited',
+  'failed',
+] as const;
+
+export type NewsletterStatus = (typeof NEWSLETTER_STATUSES)[number];
+
+// Accepts cross-site POSTs from mail providers, see src/middleware.ts
+export const ONE_CLICK_UNSUBSCRIBE_PATH = '/api/newsletter/unsubscribe';
+
+const emailSchema = z.string().trim().max(254).email();
+
+/**
+ * Validate the address of a subscribe form
+ * @returns The address, or undefined if it is not a valid email
+ */
+export function parseSubscribeForm(form: FormData): string | undefined {
+  const result = emailSchema.safeParse(String(form.get('email') ?? ''));
+  return result.success ? result.data : undefined;
+}
+
+/**
+ * Get the newsletter page of a locale
+ * @param status - Result to show on the page
+ */
+export function getNewsletterPath(locale: Locale, status?: NewsletterStatus): string {
+  const path = localizePath('/newsletter', locale);
+  return status ? `${path}?status=${status}` : path;
+}
+
+/**
+ * Read the result of a newsletter action from the newsletter page URL
+ */
+export function getNewsletterStatus(url: URL): NewsletterStatus | undefined {
+  const status = url.searchParams.get('status');
+  return (NEWSLETTER_STATUSES as readonly string[]).includes(status ?? '') ? (status as NewsletterStatus) : undefined;
+}
+
+/**
+ * Get the link that confirms a subscription
+ * @param site - Absolute site URL without trailing slash
+ */
+export function getConfirmUrl(site: string, token: string): string {
+  return `${site}/api/newsletter/confirm?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Get the link that leads to the unsubscribe button
+ * A page with a button rather than a direct link, so mail scanners that open
+ * links don't unsubscribe anyone.
+ * @param site - Absolute site URL without trailing slash
+ */
+export function getUnsubscribeUrl(site: string, locale: Locale, token: string): string {
+  return `${site}${getNewsletterPath(locale)}?unsubscribe=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Get the one-click unsubscribe endpoint for the List-Unsubscribe header (RFC 8058)
+ * Mail providers POST `List-Unsubscribe=One-Click` to it; opened in a browser,
+ * it redirects to the unsubscribe page.
+ * @param site - Absolute site URL without trailing slash
+ */
+export function getOneClickUnsubscribeUrl(site: string, locale: Locale, token: string): string {
+  return `${site}${ONE_CLICK_UNSUBSCRIBE_PATH}?token=${encodeURIComponent(token)}&lang=${locale}`;
+}
+
+/**
+ * Escape text for use in HTML email
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Wrap email content in a minimal HTML document with inline styles
+ * @param locale - Language of the email
+ * @param body - HTML content
+ */
+export function renderEmailHtml(locale: Locale, body: string): string {
+  return `<!doctype html>
+<html lang="${locale}">
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#111827;line-height:1.6">
+  <div style="max-width:560px;margin:0 auto;padding:32px;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px">
+${body}
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Render the email that asks a new subscriber to confirm their address
+ * @param locale - Language of the page they subscribed on
+ * @param confirmUrl - Link from `getConfirmUrl`
+ */
+export function renderConfirmationEmail(locale: Locale, confirmUrl: string): Omit<MailMessage, 'to'> {
+  const t = useTranslations(locale);
+  const subject = t('newsletter.confirmEmail.subject', { site: SITE.title });
+  const intro = t('newsletter.confirmEmail.intro', { site: SITE.title });
+  const button = t('newsletter.confirmEmail.button');
+  const ignore = t('newsletter.confirmEmail.ignore');
+
+  return {
+    subject,
+    text: [intro, '', `${button}: ${confirmUrl}`, '', ignore].join('\n'),
+    html: renderEmailHtml(
+      locale,
+      `    <p>${escapeHtml(intro)}</p>
+    <p><a href="${escapeHtml(confirmUrl)}" style="display:inline-block;padding:10px 16px;background:#2563eb;color:#ffffff;border-radius:8px;text-decoration:none;font-weight:600">${escapeHtml(button)}</a></p>
+    <p style="color:#6b7280;font-size:14px">${escapeHtml(ignore)}</p>`
+    ),
+  };
+}
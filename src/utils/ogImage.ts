@@ -0,0 +1,332 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import satori from 'satori';
+import { Resvg } from '@resvg/resvg-js';
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { OG_IMAGE_THEME, SITE } from '../config/site';
+import { DEFAULT_LOCALE, type Locale } from '../config/i18n';
+import { useTranslations } from '../i18n/ui';
+import { formatDate } from './formatDate';
+import { getReadingTime } from './readingTime';
+import { isVisible } from './publish';
+import { resolveTags } from './filterByTag';
+
+export type OgTheme = 'light' | 'dark';
+
+export type OgCollection = 'blog' | 'works';
+
+/**
+ * Content of a social card
+ */
+export interface OgCard {
+  label: string; // Small heading above the title, e.g. "Blog" or "Research"
+  title: string;
+  description: string;
+  tags: string[];
+  date?: Date;
+  readingTime?: number; // Minutes
+  locale?: Locale; // Language of the date and reading time (default: the default locale)
+}
+
+// Social card size recommended by Open Graph and Twitter
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+// Colors mirror the Tailwind tokens in tailwind.config.mjs
+const THEMES = {
+  light: {
+    background: '#ffffff',
+    foreground: '#0f172a',
+    muted: '#64748b',
+    accent: '#2563eb',
+    tagBackground: '#dbeafe',
+    tagText: '#1d4ed8',
+  },
+  dark: {
+    background: '#0f172a',
+    foreground: '#f8fafc',
+    muted: '#94a3b8',
+    accent: '#60a5fa',
+    tagBackground: 'rgba(30, 58, 138, 0.5)',
+    tagText: '#bfdbfe',
+  },
+} as const;
+
+/**
+ * Get the path of a generated social card
+ * @param collection - Collection of the entry (omit for the site-wide default card)
+ * @param slug - Slug of the entry
+ * @param theme - Card variant (default: OG_IMAGE_THEME)
+ * @returns Root-relative image path, e.g. '/og/blog/my-post.png' or '/og/dark/blog/my-post.png'
+ */
+export function getOgImagePath(
+  collection?: OgCollection,
+  slug?: string,
+  theme: OgTheme = OG_IMAGE_THEME
+): string {
+  const prefix = theme === 'dark' ? '/og/dark' : '/og';
+  return collection && slug ? `${prefix}/${collection}/${slug}.png` : `${prefix}/default.png`;
+}
+
+/**
+ * Build the social card content for a blog post
+ */
+export function getBlogOgCard(post: CollectionEntry<'blog'>): OgCard {
+  const blog = useTranslations(post.data.lang)('nav.blog');
+
+  return {
+    label: post.data.series ? `${blog} · ${post.data.series}` : blog,
+    title: post.data.title,
+    description: post.data.description,
+    tags: resolveTags(post.data.tags).map((tag) => tag.name),
+    date: post.data.pubDate,
+    readingTime: getReadingTime(post.body),
+    locale: post.data.lang,
+  };
+}
+
+/**
+ * Build the social card content for a work
+ */
+export function getWorkOgCard(work: CollectionEntry<'works'>): OgCard {
+  return {
+    label: useTranslations(work.data.lang)(`workType.${work.data.type}`),
+    title: work.data.title,
+    description: work.data.description,
+    tags: resolveTags(work.data.tags).map((tag) => tag.name),
+    date: work.data.date,
+    locale: work.data.lang,
+  };
+}
+
+/**
+ * Build the site-wide default social card
+ */
+export function getDefaultOgCard(): OgCard {
+  return {
+    label: SITE.author,
+    title: SITE.title,
+    description: SITE.description,
+    tags: [],
+  };
+}
+
+/**
+ * Static paths for the per-entry card endpoints
+ * @returns One path per visible blog post and work, with the card as props
+ */
+export async function getOgImagePaths() {
+  const posts = await getCollection('blog', ({ data }) => isVisible(data));
+  const works = await getCollection('works');
+
+  return [
+    ...posts.map((post) => ({
+      params: { collection: 'blog', slug: post.slug },
+      props: { card: getBlogOgCard(post) },
+    })),
+    ...works.map((work) => ({
+      params: { collection: 'works', slug: work.slug },
+      props: { card: getWorkOgCard(work) },
+    })),
+  ];
+}
+
+type OgFont = { name: string; data: Buffer; weight: 400 | 700; style: 'normal' };
+
+// Part of a @fontsource font, with the code points it covers
+interface FontSubset {
+  file: string; // e.g. 'inter-greek-400-normal.woff'
+  ranges: [number, number][];
+}
+
+// Fonts in order of preference; later ones fill in scripts Inter lacks
+// (Noto Sans: Devanagari, Noto Sans SC: Chinese and Japanese)
+const FONT_FAMILIES = [
+  { name: 'Inter', package: 'inter' },
+  { name: 'Noto Sans', package: 'noto-sans' },
+  { name: 'Noto Sans SC', package: 'noto-sans-sc' },
+];
+
+const FONT_WEIGHTS = [400, 700] as const;
+
+// Subset lists and font files are read once per build
+const subsetCache = new Map<string, Promise<FontSubset[]>>();
+const fontFileCache = new Map<string, Promise<Buffer>>();
+
+function getFontDir(fontPackage: string): string {
+  return path.join(process.cwd(), 'node_modules/@fontsource', fontPackage);
+}
+
+/**
+ * Read the subsets of a font from its stylesheet, e.g. @fontsource/inter/400.css
+ */
+function loadFontSubsets(fontPackage: string): Promise<FontSubset[]> {
+  if (!subsetCache.has(fontPackage)) {
+    subsetCache.set(
+      fontPackage,
+      fs.readFile(path.join(getFontDir(fontPackage), '400.css'), 'utf-8').then((css) =>
+        Array.from(css.matchAll(/url\(\.\/files\/([^)]+\.woff)\) format\('woff'\);\s*unicode-range: ([^;]+);/g), (match) => ({
+          file: match[1],
+          ranges: match[2].split(',').map((range) => {
+            const [start, end = start] = range.trim().replace(/^U\+/i, '').split('-');
+            return [parseInt(start, 16), parseInt(end, 16)] as [number, number];
+          }),
+        }))
+      )
+    );
+  }
+  return subsetCache.get(fontPackage)!;
+}
+
+function readFontFile(fontPackage: string, file: string): Promise<Buffer> {
+  const filePath = path.join(getFontDir(fontPackage), 'files', file);
+  if (!fontFileCache.has(filePath)) fontFileCache.set(filePath, fs.readFile(filePath));
+  return fontFileCache.get(filePath)!;
+}
+
+/**
+ * Load the fonts needed to render some text
+ * Each character is taken from the first family that covers it, and only the
+ * subsets holding those characters are read.
+ * @param text - All text on the card
+ */
+async function loadFonts(text: string): Promise<OgFont[]> {
+  let missing = Array.from(new Set(Array.from(text, (char) => char.codePointAt(0)!)));
+  const fonts: OgFont[] = [];
+
+  for (const family of FONT_FAMILIES) {
+    const subsets = await loadFontSubsets(family.package);
+    const covers = (subset: FontSubset, codePoint: number) =>
+      subset.ranges.some(([start, end]) => codePoint >= start && codePoint <= end);
+    const needed = subsets.filter((subset) => missing.some((codePoint) => covers(subset, codePoint)));
+
+    missing = missing.filter((codePoint) => !needed.some((subset) => covers(subset, codePoint)));
+
+    for (const subset of needed) {
+      for (const weight of FONT_WEIGHTS) {
+        // One name per subset: satori keeps a single font per name and weight
+        fonts.push({
+          name: `${family.name} ${subset.file.replace(/-400-normal\.woff$/, '')}`,
+          data: await readFontFile(family.package, subset.file.replace('-400-', `-${weight}-`)),
+          weight,
+          style: 'normal',
+        });
+      }
+    }
+
+    if (missing.length === 0) break;
+  }
+
+  return fonts;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+// Minimal element factory for satori (avoids pulling JSX into a .ts module)
+function h(type: string, style: Record<string, unknown>, ...children: unknown[]) {
+  return { type, props: { style, children: children.length > 1 ? children : children[0] } };
+}
+
+/**
+ * Render a social card to PNG
+ * @param card - Card content
+ * @param theme - Light or dark variant
+ * @returns PNG image data
+ */
+export async function renderOgImage(card: OgCard, theme: OgTheme): Promise<Buffer> {
+  const colors = THEMES[theme];
+  const meta = [
+    card.date && formatDate(card.date, 'long', card.locale),
+    card.readingTime && useTranslations(card.locale ?? DEFAULT_LOCALE)('blog.readingTime', { count: card.readingTime }),
+  ].filter(Boolean).join(' · ');
+  const host = new URL(SITE.siteUrl).host;
+  const fonts = await loadFonts([card.label.toUpperCase(), card.title, card.description, ...card.tags, meta, host, '…'].join(' '));
+
+  const tree = h(
+    'div',
+    {
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      backgroundColor: colors.background,
+      fontFamily: Array.from(new Set(fonts.map((font) => `'${font.name}'`))).join(', '),
+    },
+    // Accent bar
+    h('div', { height: 16, backgroundImage: 'linear-gradient(90deg, #2563eb, #7c3aed)' }),
+    h(
+      'div',
+      {
+        flex: 1,
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        padding: '56px 72px',
+      },
+      // Label and site name
+      h(
+        'div',
+        { display: 'flex', justifyContent: 'space-between', fontSize: 26, color: colors.muted },
+        h('div', { color: colors.accent, fontWeight: 700, textTransform: 'uppercase', letterSpacing: 2 }, card.label),
+        h('div', {}, host)
+      ),
+      // Title and description
+      h(
+        'div',
+        { display: 'flex', flexDirection: 'column' },
+        h(
+          'div',
+          { fontSize: card.title.length > 60 ? 56 : 68, fontWeight: 700, lineHeight: 1.15, color: colors.foreground },
+          truncate(card.title, 100)
+        ),
+        h(
+          'div',
+          { marginTop: 24, fontSize: 28, lineHeight: 1.4, color: colors.muted },
+          truncate(card.description, 150)
+        )
+      ),
+      // Tags and date
+      h(
+        'div',
+        { display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: 24 },
+        h(
+          'div',
+          { display: 'flex', gap: 12 },
+          ...card.tags.slice(0, 3).map((tag) =>
+            h(
+              'div',
+              {
+                padding: '6px 18px',
+                borderRadius: 999,
+                backgroundColor: colors.tagBackground,
+                color: colors.tagText,
+              },
+              tag
+            )
+          )
+        ),
+        h('div', { flexShrink: 0, marginLeft: 24, color: colors.muted }, meta)
+      )
+    )
+  );
+
+  // satori's types expect a ReactNode; the plain object tree is what JSX compiles to
+  const svg = await satori(tree as Parameters<typeof satori>[0], {
+    width: OG_IMAGE_WIDTH,
+    height: OG_IMAGE_HEIGHT,
+    fonts,
+  });
+
+  return new Resvg(svg, { fitTo: { mode: 'width', value: OG_IMAGE_WIDTH } }).render().asPng();
+}
+
+/**
+ * Wrap rendered PNG data in an endpoint response
+ */
+export function createOgImageResponse(png: Buffer): Response {
+  return new Response(new Uint8Array(png), {
+    headers: { 'Content-Type': 'image/png' },
+  });
+}
@@ -0,0 +1,83 @@
+import type { CollectionEntry } from 'astro:content';
+import { SITE } from '../config/site';
+
+type WorkData = CollectionEntry<'works'>['data'];
+
+/**
+ * A research paper or publication from the works collection
+ */
+export type PublicationEntry = CollectionEntry<'works'> & {
+  data: Extract<WorkData, { type: 'research' | 'publication' }>;
+};
+
+/**
+ * A link shown next to a bibliography entry
+ */
+export interface PublicationLink {
+  label: string;
+  url: string;
+}
+
+/**
+ * Publications published in the same year
+ */
+export interface PublicationYear {
+  year: number;
+  works: PublicationEntry[];
+}
+
+/**
+ * Check whether a work belongs on the publications page
+ * @param work - Work entry
+ * @returns True for research papers and publications
+ */
+export function isPublication(work: CollectionEntry<'works'>): work is PublicationEntry {
+  return work.data.type === 'research' || work.data.type === 'publication';
+}
+
+/**
+ * Get the author list of a publication
+ * Falls back to the site author (plus co-authors) when there is no citation metadata
+ * @param work - Publication entry
+ * @returns Author names in order
+ */
+export function getPublicationAuthors(work: PublicationEntry): string[] {
+  if (work.data.citation) return work.data.citation.authors;
+
+  const coAuthors = work.data.type === 'publication' ? work.data.coAuthors || [] : [];
+  return [SITE.author, ...coAuthors];
+}
+
+/**
+ * Get the PDF, SSRN and DOI links of a publication
+ * @param work - Publication entry
+ * @returns Links that are available, in that order
+ */
+export function getPublicationLinks(work: PublicationEntry): PublicationLink[] {
+  const { pdf, citation } = work.data;
+  const links: PublicationLink[] = [];
+
+  if (pdf) links.push({ label: 'PDF', url: pdf });
+  if (citation?.ssrnId) links.push({ label: 'SSRN', url: `https://ssrn.com/abstract=${citation.ssrnId}` });
+  if (citation?.doi) links.push({ label: 'DOI', url: `https://doi.org/${citation.doi}` });
+
+  return links;
+}
+
+/**
+ * Group publications by year (UTC), newest year and newest work first
+ * @param works - Publication entries
+ * @returns One group per year that has publications
+ */
+export function groupPublicationsByYear(works: PublicationEntry[]): PublicationYear[] {
+  const years = new Map<number, PublicationEntry[]>();
+
+  [...works]
+    .sort((a, b) => b.data.date.getTime() - a.data.date.getTime())
+    .forEach((work) => {
+      const year = work.data.date.getUTCFullYear();
+      years.set(year, [...(years.get(year) || []), work]);
+    });
+
+  return Array.from(years, ([year, works]) => ({ year, works })).sort((a, b) => b.year - a.year);
+}
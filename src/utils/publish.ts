@@ -0,0 +1,49 @@
+/**
+ * Type for entry data that can be drafted or scheduled
+ */
+export interface PublishableData {
+  draft?: boolean;
+  pubDate?: Date;
+  [key: string]: any;
+}
+
+/**
+ * Check whether a post is a draft
+ * @param data - Entry data
+ * @returns True if the post is marked as a draft
+ */
+export function isDraft(data: PublishableData): boolean {
+  return data.draft === true;
+}
+
+/**
+ * Check whether a post is scheduled for a future date
+ * Scheduled posts go live on the first build after their pubDate
+ * @param data - Entry data
+ * @param now - Reference time (default: current time)
+ * @returns True if pubDate is in the future
+ */
+export function isScheduled(data: PublishableData, now: Date = new Date()): boolean {
+  return data.pubDate !== undefined && new Date(data.pubDate).getTime() > now.getTime();
+}
+
+/**
+ * Check whether a post is publicly published (not a draft, not scheduled)
+ * Use for outputs that must never leak unpublished posts: RSS, search, sitemap
+ * @param data - Entry data
+ * @returns True if the post is live
+ */
+export function isPublished(data: PublishableData): boolean {
+  return !isDraft(data) && !isScheduled(data);
+}
+
+/**
+ * Check whether a post should get a page in the current build
+ * In dev mode drafts and scheduled posts are rendered so authors can preview them;
+ * production builds only include published posts (so they never reach the sitemap)
+ * @param data - Entry data
+ * @returns True if the post should be rendered
+ */
+export function isVisible(data: PublishableData): boolean {
+  return import.meta.env.DEV || isPublished(data);
+}
@@ -0,0 +1,46 @@
+/**
+ * Fixed-window rate limiter
+ * Counts are kept in memory, so they reset on restart and are per server process.
+ */
+export interface RateLimiter {
+  /**
+   * Count an attempt
+   * @param key - Who is attempting, e.g. the client IP
+   * @returns Whether the attempt is allowed, and how many seconds until the window resets
+   */
+  check(key: string): { allowed: boolean; retryAfter: number };
+}
+
+export interface RateLimiterOptions {
+  limit: number; // Attempts allowed per window
+  windowMs: number; // Window length in milliseconds
+}
+
+/**
+ * Create a rate limiter
+ * @param options - Attempts allowed per window
+ * @returns A limiter with its own counts; create one per endpoint at module level
+ */
+export function createRateLimiter({ limit, windowMs }: RateLimiterOptions): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    check(key) {
+      const now = Date.now();
+
+      // Drop expired windows so the map doesn't grow with every visitor
+      for (const [other, window] of windows) {
+        if (window.resetAt <= now) windows.delete(other);
+      }
+
+      const window = windows.get(key) ?? { count: 0, resetAt: now + windowMs };
+      window.count += 1;
+      windows.set(key, window);
+
+      return {
+        allowed: window.count <= limit,
+        retryAfter: Math.ceil((window.resetAt - now) / 1000),
+      };
+    },
+  };
+}
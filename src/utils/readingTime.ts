@@ -1,11 +1,14 @@
+import { DEFAULT_LOCALE, type Locale } from '../config/i18n';
+import { useTranslations } from '../i18n/ui';
+
 /**
- * Calculate reading time for content
- * @param content - The content to analyze (string or markdown)
- * @returns Reading time in minutes
+ * Strip markdown/MDX syntax and HTML tags, leaving plain prose
+ * @param content - The content to clean (string or markdown)
+ * @returns Plain text content
  */
-export function getReadingTime(content: string): number {
-  // Remove markdown syntax and HTML tags for accurate word count
-  const cleanContent = content
+export function stripMarkdown(content: string): string {
+  return content
+    .replace(/^\s*(import|export)\s.*$/gm, '') // Remove MDX import/export statements
     .replace(/```[\s\S]*?```/g, '') // Remove code blocks
     .replace(/`[^`]*`/g, '') // Remove inline code
     .replace(/<[^>]*>/g, '') // Remove HTML tags
@@ -13,6 +16,16 @@ export function getReadingTime(content: string): number {
     .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Replace links with link text
     .replace(/[#*_~]/g, '') // Remove markdown formatting characters
     .trim();
+}
+
+/**
+ * Calculate reading time for content
+ * @param content - The content to analyze (string or markdown)
+ * @returns Reading time in minutes
+ */
+export function getReadingTime(content: string): number {
+  // Remove markdown syntax and HTML tags for accurate word count
+  const cleanContent = stripMarkdown(content);
 
   // Count words (split by whitespace)
   const words = cleanContent.split(/\s+/).filter(word => word.length > 0);
@@ -30,9 +43,9 @@ export function getReadingTime(content: string): number {
 /**
  * Get a formatted reading time string
  * @param content - The content to analyze
- * @returns Formatted string like "5 min read"
+ * @param locale - Locale of the output (default: the default locale)
+ * @returns Formatted string like "5 min read" or "5 Min. Lesezeit"
  */
-export function getReadingTimeText(content: string): string {
-  const minutes = getReadingTime(content);
-  return `${minutes} min read`;
+export function getReadingTimeText(content: string, locale: Locale = DEFAULT_LOCALE): string {
+  return useTranslations(locale)('blog.readingTime', { count: getReadingTime(content) });
 }
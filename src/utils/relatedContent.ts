@@ -0,0 +1,136 @@
+import { resolveTag, type TaggedItem } from './filterByTag';
+import { stripMarkdown } from './readingTime';
+import { tokenize } from './search';
+
+/**
+ * Type for items that can be compared for relatedness
+ * Works with entries from both the blog and works collections
+ */
+export interface RelatedItem extends TaggedItem {
+  collection: string;
+  slug: string;
+  body: string;
+}
+
+/**
+ * A related item with its similarity score (0-1)
+ */
+export interface RelatedResult<T> {
+  item: T;
+  score: number;
+}
+
+export interface RelatedOptions {
+  limit?: number;
+  tagWeight?: number;
+  termWeight?: number;
+  minScore?: number;
+}
+
+// Common English words that carry no topical signal
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'and', 'are', 'because', 'been', 'before', 'being', 'between',
+  'both', 'but', 'can', 'could', 'does', 'each', 'for', 'from', 'has', 'have', 'here',
+  'how', 'into', 'its', 'just', 'like', 'more', 'most', 'not', 'now', 'only', 'other',
+  'our', 'out', 'over', 'own', 'same', 'should', 'some', 'such', 'than', 'that', 'the',
+  'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'too',
+  'under', 'very', 'was', 'way', 'were', 'what', 'when', 'where', 'which', 'while', 'who',
+  'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+function getKey(item: RelatedItem): string {
+  return `${item.collection}/${item.slug}`;
+}
+
+function getTermCounts(body: string): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  tokenize(stripMarkdown(body))
+    .filter((term) => term.length > 2 && !STOP_WORDS.has(term) && !/^\d+$/.test(term))
+    .forEach((term) => counts.set(term, (counts.get(term) || 0) + 1));
+
+  return counts;
+}
+
+/**
+ * Jaccard similarity of two tag lists (compared as canonical tags, so aliases match)
+ */
+function tagSimilarity(a: string[], b: string[]): number {
+  const setA = new Set(a.map((tag) => resolveTag(tag).slug));
+  const setB = new Set(b.map((tag) => resolveTag(tag).slug));
+  if (setA.size === 0 || setB.size === 0) return 0;
+
+  const shared = [...setA].filter((tag) => setB.has(tag)).length;
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Cosine similarity of two sparse vectors
+ */
+function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  a.forEach((value, term) => {
+    normA += value * value;
+    const other = b.get(term);
+    if (other) dot += value * other;
+  });
+  b.forEach((value) => {
+    normB += value * value;
+  });
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Find the items most related to the current one
+ * Scores combine tag overlap with TF-IDF similarity of the bodies
+ * @param current - Item to find related content for
+ * @param candidates - Pool of items (may include the current item; it is skipped)
+ * @param options - Result limit, score weights and minimum score
+ * @returns Related items sorted by descending score
+ */
+export function getRelatedContent<T extends RelatedItem>(
+  current: T,
+  candidates: T[],
+  options: RelatedOptions = {}
+): RelatedResult<T>[] {
+  const { limit = 3, tagWeight = 0.6, termWeight = 0.4, minScore = 0.05 } = options;
+
+  const currentKey = getKey(current);
+  const pool = candidates.filter((item) => getKey(item) !== currentKey);
+  const corpus = [current, ...pool];
+
+  // Document frequency of each term across the whole corpus
+  const termCounts = new Map(corpus.map((item) => [getKey(item), getTermCounts(item.body)]));
+  const documentFrequency = new Map<string, number>();
+  termCounts.forEach((counts) => {
+    counts.forEach((_, term) => {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    });
+  });
+
+  const toVector = (item: T): Map<string, number> => {
+    const vector = new Map<string, number>();
+    termCounts.get(getKey(item))?.forEach((count, term) => {
+      const idf = Math.log((corpus.length + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+      vector.set(term, count * idf);
+    });
+    return vector;
+  };
+
+  const currentVector = toVector(current);
+
+  return pool
+    .map((item) => ({
+      item,
+      score:
+        tagWeight * tagSimilarity(current.data.tags, item.data.tags) +
+        termWeight * cosineSimilarity(currentVector, toVector(item)),
+    }))
+    .filter(({ score }) => score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
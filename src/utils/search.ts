@@ -0,0 +1,382 @@
+import type { Locale } from '../config/i18n';
+import { stripMarkdown } from './readingTime';
+
+/**
+ * Collections that are included in the search index
+ */
+export type SearchCollection = 'blog' | 'works';
+
+/**
+ * A single searchable entry, as emitted by the /search.json endpoint
+ */
+export interface SearchDocument {
+  id: string;
+  collection: SearchCollection;
+  url: string;
+  lang: Locale;
+  translationKey: string; // Shared by all language versions of an entry
+  title: string;
+  description: string;
+  tags: string[];
+  headings: string[];
+  body: string;
+  date: string;
+}
+
+/**
+ * Shape of the build-time search index
+ */
+export interface SearchIndex {
+  generatedAt: string;
+  documents: SearchDocument[];
+}
+
+/**
+ * A piece of text that is either highlighted or plain
+ */
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+/**
+ * A ranked search hit with highlighted title and snippet
+ */
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  title: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+/**
+ * Window event used by the dock and mobile menu to open the search palette
+ */
+export const SEARCH_OPEN_EVENT = 'search:open';
+
+/**
+ * Open the search palette from anywhere on the page
+ */
+export function openSearch(): void {
+  window.dispatchEvent(new CustomEvent(SEARCH_OPEN_EVENT));
+}
+
+// ---------------------------------------------------------------------------
+// Index generation (build time)
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract heading text from markdown content
+ * @param content - Raw markdown/MDX body
+ * @returns Array of heading strings in document order
+ */
+export function extractHeadings(content: string): string[] {
+  const withoutCode = content.replace(/```[\s\S]*?```/g, '');
+  const headings: string[] = [];
+
+  for (const match of withoutCode.matchAll(/^#{1,6}\s+(.+?)\s*#*\s*$/gm)) {
+    headings.push(stripMarkdown(match[1]));
+  }
+
+  return headings;
+}
+
+/**
+ * Build a search document from collection entry data
+ * @param entry - Entry fields to index
+ * @returns Compact search document with markdown stripped from the body
+ */
+export function createSearchDocument(entry: {
+  collection: SearchCollection;
+  slug: string;
+  lang: Locale;
+  translationKey: string;
+  title: string;
+  description: string;
+  tags: string[];
+  body: string;
+  date: Date;
+}): SearchDocument {
+  return {
+    id: `${entry.collection}/${entry.slug}`,
+    collection: entry.collection,
+    url: `/${entry.lang}/${entry.collection}/${entry.slug}`,
+    lang: entry.lang,
+    translationKey: `${entry.collection}/${entry.translationKey}`,
+    title: entry.title,
+    description: entry.description,
+    tags: entry.tags,
+    headings: extractHeadings(entry.body),
+    body: stripMarkdown(entry.body).replace(/\s+/g, ' '),
+    date: entry.date.toISOString(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Querying (client side)
+// ---------------------------------------------------------------------------
+
+// Relative importance of each field when scoring a match
+const FIELD_WEIGHTS = {
+  title: 10,
+  tags: 6,
+  headings: 4,
+  description: 3,
+  body: 1,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+/**
+ * Search document with pre-tokenized fields, ready for querying
+ */
+export interface PreparedDocument {
+  document: SearchDocument;
+  fields: Record<SearchField, Map<string, number>>;
+}
+
+/**
+ * Lowercase text and strip its diacritics, the form tokens and query terms are compared in
+ */
+function foldText(text: string): string {
+  return text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Fold text like `foldText`, remembering where each folded character came from
+ * @returns The folded text, and for each of its indices the index in the original text
+ */
+function foldTextWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = '';
+  const offsets: number[] = [];
+  let index = 0;
+
+  for (const char of text) {
+    const foldedChar = foldText(char);
+    folded += foldedChar;
+    for (let i = 0; i < foldedChar.length; i++) offsets.push(index);
+    index += char.length;
+  }
+
+  return { folded, offsets };
+}
+
+/**
+ * Normalize and split text into lowercase word tokens
+ * Letters and digits of any script count as word characters.
+ * @param text - Text to tokenize
+ * @returns Array of tokens (diacritics removed)
+ */
+export function tokenize(text: string): string[] {
+  return foldText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+}
+
+function countTokens(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  tokenize(text).forEach((token) => {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Tokenize every document in the index once so queries stay fast
+ * @param index - Search index loaded from /search.json
+ * @returns Prepared documents
+ */
+export function prepareIndex(index: SearchIndex): PreparedDocument[] {
+  return index.documents.map((document) => ({
+    document,
+    fields: {
+      title: countTokens(document.title),
+      tags: countTokens(document.tags.join(' ')),
+      headings: countTokens(document.headings.join(' ')),
+      description: countTokens(document.description),
+      body: countTokens(document.body),
+    },
+  }));
+}
+
+/**
+ * Levenshtein distance with an early exit once maxDistance is exceeded
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Score how well a query term matches a document token
+ * Exact matches score 1, prefix matches 0.75 and typo-tolerant matches 0.5
+ */
+function matchTerm(term: string, token: string): number {
+  if (token === term) return 1;
+  if (term.length >= 2 && token.startsWith(term)) return 0.75;
+  if (term.length < 4) return 0;
+
+  const maxDistance = term.length >= 7 ? 2 : 1;
+  return editDistance(term, token, maxDistance) <= maxDistance ? 0.5 : 0;
+}
+
+// Start of a word, like `\b` but Unicode-aware (`\b` only knows ASCII word characters)
+const WORD_START = '(?<![\\p{L}\\p{N}])';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Split text into highlighted and plain segments
+ * Matching ignores case and diacritics, so "kunstliche" highlights "Künstliche".
+ * @param text - Text to highlight
+ * @param words - Words to highlight (tokens from `tokenize`, matched at word starts)
+ * @returns Array of segments
+ */
+export function highlight(text: string, words: string[]): HighlightSegment[] {
+  if (words.length === 0) return [{ text, highlight: false }];
+
+  const pattern = new RegExp(
+    `${WORD_START}(${[...words].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`,
+    'gu'
+  );
+  const { folded, offsets } = foldTextWithOffsets(text);
+  const toOriginal = (index: number) => (index < offsets.length ? offsets[index] : text.length);
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of folded.matchAll(pattern)) {
+    const start = toOriginal(match.index ?? 0);
+    const end = toOriginal((match.index ?? 0) + match[0].length);
+    if (start > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, start), highlight: false });
+    }
+    segments.push({ text: text.slice(start, end), highlight: true });
+    lastIndex = end;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), highlight: false });
+  }
+
+  return segments;
+}
+
+/**
+ * Cut a window of text around the first matched word
+ * @param text - Full text to excerpt
+ * @param words - Matched words to center the snippet on (tokens from `tokenize`)
+ * @param radius - Number of characters to keep on each side (default: 80)
+ * @returns Highlighted snippet segments, or null if no word occurs in text
+ */
+export function createSnippet(
+  text: string,
+  words: string[],
+  radius: number = 80
+): HighlightSegment[] | null {
+  const { folded, offsets } = foldTextWithOffsets(text);
+  const positions = words
+    .map((word) => folded.search(new RegExp(`${WORD_START}${escapeRegExp(word)}`, 'u')))
+    .filter((position) => position >= 0);
+
+  if (positions.length === 0) return null;
+
+  const position = offsets[Math.min(...positions)];
+  const start = Math.max(0, position - radius);
+  const end = Math.min(text.length, position + radius);
+
+  const excerpt =
+    (start > 0 ? '…' : '') + text.slice(start, end).trim() + (end < text.length ? '…' : '');
+
+  return highlight(excerpt, words);
+}
+
+/**
+ * Search prepared documents with ranked, typo-tolerant matching
+ * Every query term must match at least one field of a document
+ * @param documents - Documents from prepareIndex
+ * @param query - Raw query string
+ * @param limit - Maximum number of results (default: 10)
+ * @returns Results sorted by descending score
+ */
+export function search(
+  documents: PreparedDocument[],
+  query: string,
+  limit: number = 10
+): SearchResult[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+
+  documents.forEach(({ document, fields }) => {
+    const matchedWords = new Set<string>();
+    let score = 0;
+
+    const allTermsMatched = terms.every((term) => {
+      let termScore = 0;
+
+      (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach((field) => {
+        let best = 0;
+        let frequency = 0;
+
+        fields[field].forEach((count, token) => {
+          const match = matchTerm(term, token);
+          if (match > 0) {
+            matchedWords.add(token);
+            if (match > best) best = match;
+            frequency += count;
+          }
+        });
+
+        if (best > 0) {
+          // Repeated body matches add weight, with diminishing returns
+          const boost = field === 'body' ? 1 + Math.log(frequency) : 1;
+          termScore += FIELD_WEIGHTS[field] * best * boost;
+        }
+      });
+
+      score += termScore;
+      return termScore > 0;
+    });
+
+    if (!allTermsMatched) return;
+
+    // Reward titles containing the whole query as a phrase
+    if (terms.length > 1 && foldText(document.title).includes(foldText(query.trim()))) {
+      score *= 1.5;
+    }
+
+    const words = Array.from(matchedWords);
+
+    results.push({
+      document,
+      score,
+      title: highlight(document.title, words),
+      snippet:
+        createSnippet(document.body, words) ||
+        createSnippet(document.description, words) ||
+        [{ text: document.description, highlight: false }],
+    });
+  });
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -1,4 +1,14 @@
-import { SITE } from '../config/site';
+import { DESCRIPTION_MAX_LENGTH, SITE } from '../config/site';
+import { DEFAULT_LOCALE, type Locale } from '../config/i18n';
+import { getOgImagePath } from './ogImage';
+
+/**
+ * A language version of the current page, for hreflang links
+ */
+export interface AlternateLink {
+  locale: Locale;
+  url: string; // Absolute URL
+}
 
 export interface SEOProps {
   title: string;
@@ -10,6 +20,9 @@ export interface SEOProps {
   modifiedTime?: string;
   author?: string;
   tags?: string[];
+  noindex?: boolean;
+  locale?: Locale;
+  alternates?: AlternateLink[]; // Every language version, including this page
 }
 
 /**
@@ -38,13 +51,16 @@ export function generateSEOProps(props: Partial<SEOProps>): SEOProps {
   return {
     title: props.title || SITE.title,
     description: props.description || SITE.description,
-    image: props.image || `${SITE.siteUrl}/images/og-default.jpg`,
+    image: props.image || getCanonicalURL(getOgImagePath()),
     canonicalURL,
     type: props.type || 'website',
     publishedTime: props.publishedTime,
     modifiedTime: props.modifiedTime,
     author: props.author || SITE.author,
     tags: props.tags || [],
+    noindex: props.noindex || false,
+    locale: props.locale || DEFAULT_LOCALE,
+    alternates: props.alternates || [],
   };
 }
 
@@ -65,10 +81,10 @@ export function formatTitle(pageTitle: string, includeSiteName: boolean = true):
 /**
  * Truncate description to SEO-friendly length
  * @param description - The description text
- * @param maxLength - Maximum length (default: 160)
+ * @param maxLength - Maximum length (default: DESCRIPTION_MAX_LENGTH)
  * @returns Truncated description
  */
-export function truncateDescription(description: string, maxLength: number = 160): string {
+export function truncateDescription(description: string, maxLength: number = DESCRIPTION_MAX_LENGTH): string {
   if (description.length <= maxLength) {
     return description;
   }
@@ -0,0 +1,84 @@
+import { slugifyTag } from './filterByTag';
+
+/**
+ * Type for blog posts that may belong to a series
+ */
+export interface SeriesItem {
+  slug: string;
+  data: {
+    pubDate: Date;
+    series?: string;
+    seriesOrder?: number;
+    [key: string]: any;
+  };
+}
+
+/**
+ * A named series with its parts in reading order
+ */
+export interface Series<T> {
+  name: string;
+  slug: string;
+  posts: T[];
+}
+
+/**
+ * Sort series parts by seriesOrder, falling back to publication date
+ * Parts without a seriesOrder go after numbered ones
+ * @param posts - Posts in the same series
+ * @returns Sorted array (first part first)
+ */
+export function sortSeriesPosts<T extends SeriesItem>(posts: T[]): T[] {
+  return [...posts].sort((a, b) => {
+    const orderA = a.data.seriesOrder ?? Number.POSITIVE_INFINITY;
+    const orderB = b.data.seriesOrder ?? Number.POSITIVE_INFINITY;
+    if (orderA !== orderB) return orderA - orderB;
+
+    return new Date(a.data.pubDate).getTime() - new Date(b.data.pubDate).getTime();
+  });
+}
+
+/**
+ * Get URL-safe slug for a series name
+ * @param name - Series name (e.g., "Building a Compiler")
+ * @returns Slug (e.g., "building-a-compiler")
+ */
+export function getSeriesSlug(name: string): string {
+  return slugifyTag(name);
+}
+
+/**
+ * Get all series from a collection of posts
+ * Series names are matched by slug, so "My Series" and "my series" are the same series
+ * @param posts - Array of blog posts
+ * @returns Series sorted by name, each with parts in reading order
+ */
+export function getAllSeries<T extends SeriesItem>(posts: T[]): Series<T>[] {
+  const seriesMap = new Map<string, Series<T>>();
+
+  posts.forEach((post) => {
+    if (!post.data.series) return;
+
+    const slug = getSeriesSlug(post.data.series);
+    const series = seriesMap.get(slug) || { name: post.data.series, slug, posts: [] };
+    series.posts.push(post);
+    seriesMap.set(slug, series);
+  });
+
+  return Array.from(seriesMap.values())
+    .map((series) => ({ ...series, posts: sortSeriesPosts(series.posts) }))
+    .sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
+}
+
+/**
+ * Get the series a post belongs to
+ * @param post - Post to look up
+ * @param posts - All posts to search for sibling parts
+ * @returns The post's series, or null if it is not part of one
+ */
+export function getPostSeries<T extends SeriesItem>(post: T, posts: T[]): Series<T> | null {
+  if (!post.data.series) return null;
+
+  const slug = getSeriesSlug(post.data.series);
+  return getAllSeries(posts).find((series) => series.slug === slug) || null;
+}
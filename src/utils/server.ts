@@ -0,0 +1,38 @@
+import {
+  MAIL_FILE,
+  MAIL_FROM,
+  MAIL_TRANSPORT,
+  MAIL_WEBHOOK_URL,
+  NEWSLETTER_DB,
+  SMTP_HOST,
+  SMTP_PASSWORD,
+  SMTP_PORT,
+  SMTP_USER,
+} from 'astro:env/server';
+import { SITE } from '../config/site';
+import { getMailTransport, type MailTransport } from './mail';
+import { openSubscriberStore, type SubscriberStore } from './subscribers';
+
+// Helpers for on-demand routes, configured from `astro:env/server`.
+// Scripts pass `process.env` to `getMailTransport` and `openSubscriberStore` instead.
+
+/**
+ * Create the mail transport configured in the server environment
+ * @returns The transport; throws if MAIL_TRANSPORT is missing in production or misconfigured
+ */
+export function getServerMailTransport(): MailTransport {
+  return getMailTransport(
+    { MAIL_TRANSPORT, MAIL_FROM, SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, MAIL_WEBHOOK_URL, MAIL_FILE },
+    { from: SITE.email, dev: import.meta.env.DEV }
+  );
+}
+
+let subscriberStore: SubscriberStore | undefined;
+
+/**
+ * Get the subscriber database at NEWSLETTER_DB, opened once per server process
+ */
+export function getServerSubscriberStore(): SubscriberStore {
+  subscriberStore ??= openSubscriberStore(NEWSLETTER_DB);
+  return subscriberStore;
+}
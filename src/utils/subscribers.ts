@@ -0,0 +1,181 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import type { Locale } from '../config/i18n';
+import { getLocale } from './i18n';
+
+// Confirmation links stop working after a week; subscribing again sends a new one
+export const CONFIRM_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * A newsletter subscriber
+ * Pending subscribers have not clicked their confirmation link yet and get no digests.
+ */
+export interface Subscriber {
+  email: string;
+  lang: Locale; // Language of the page they subscribed on; digests are sent in it
+  status: 'pending' | 'confirmed';
+  unsubscribeToken: string;
+  createdAt: Date;
+  confirmedAt?: Date;
+}
+
+/**
+ * Subscribers and digest history, kept in a local SQLite database
+ */
+export interface SubscriberStore {
+  /**
+   * Add a pending subscriber, or renew the confirmation token of a pending one
+   * @returns Confirmation token, or undefined if the address is already confirmed
+   */
+  subscribe(email: string, lang: Locale): string | undefined;
+  /**
+   * Confirm a subscription
+   * @returns The subscriber, or undefined if the token is unknown or expired
+   */
+  confirm(token: string): Subscriber | undefined;
+  /**
+   * Remove a subscriber
+   * @returns The removed subscriber, or undefined if the token is unknown
+   */
+  unsubscribe(token: string): Subscriber | undefined;
+  listConfirmed(): Subscriber[];
+  /**
+   * Get the last digest that was sent
+   * @returns Its time and the translation keys of the posts it contained
+   */
+  getLastDigest(): { sentAt: Date; postKeys: string[] } | undefined;
+  /**
+   * Record a sent digest
+   * @param postKeys - Translation keys of the posts it contained
+   * @param recipients - Number of subscribers it was delivered to
+   */
+  recordDigest(sentAt: Date, postKeys: string[], recipients: number): void;
+  close(): void;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS subscribers (
+    email TEXT PRIMARY KEY,
+    lang TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('pending', 'confirmed')),
+    confirm_token TEXT UNIQUE,
+    unsubscribe_token TEXT NOT NULL UNIQUE,
+    created_at INTEGER NOT NULL,
+    confirmed_at INTEGER
+  );
+  CREATE TABLE IF NOT EXISTS digests (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    sent_at INTEGER NOT NULL,
+    post_keys TEXT NOT NULL,
+    recipients INTEGER NOT NULL
+  );
+`;
+
+interface SubscriberRow {
+  email: string;
+  lang: string;
+  status: 'pending' | 'confirmed';
+  confirm_token: string | null;
+  unsubscribe_token: string;
+  created_at: number;
+  confirmed_at: number | null;
+}
+
+function toSubscriber(row: SubscriberRow): Subscriber {
+  return {
+    email: row.email,
+    lang: getLocale(row.lang),
+    status: row.status,
+    unsubscribeToken: row.unsubscribe_token,
+    createdAt: new Date(row.created_at),
+    confirmedAt: row.confirmed_at === null ? undefined : new Date(row.confirmed_at),
+  };
+}
+
+/**
+ * Create a random, URL-safe token
+ */
+function createToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * Open the subscriber database, creating the file and tables if needed
+ * @param file - Path of the SQLite file, e.g. '.data/newsletter.db'
+ */
+export function openSubscriberStore(file: string): SubscriberStore {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  const findByEmail = db.prepare<[string], SubscriberRow>('SELECT * FROM subscribers WHERE email = ?');
+  const findByConfirmToken = db.prepare<[string], SubscriberRow>('SELECT * FROM subscribers WHERE confirm_token = ?');
+  const findByUnsubscribeToken = db.prepare<[string], SubscriberRow>(
+    'SELECT * FROM subscribers WHERE unsubscribe_token = ?'
+  );
+
+  return {
+    subscribe(email, lang) {
+      const address = email.trim().toLowerCase();
+      const existing = findByEmail.get(address);
+      if (existing?.status === 'confirmed') return undefined;
+
+      const token = createToken();
+      if (existing) {
+        db.prepare('UPDATE subscribers SET lang = ?, confirm_token = ?, created_at = ? WHERE email = ?')
+          .run(lang, token, Date.now(), address);
+      } else {
+        db.prepare(
+          `INSERT INTO subscribers (email, lang, status, confirm_token, unsubscribe_token, created_at)
+           VALUES (?, ?, 'pending', ?, ?, ?)`
+        ).run(address, lang, token, createToken(), Date.now());
+      }
+      return token;
+    },
+
+    confirm(token) {
+      const row = findByConfirmToken.get(token);
+      if (!row || Date.now() - row.created_at > CONFIRM_TOKEN_TTL_MS) return undefined;
+
+      const confirmedAt = Date.now();
+      db.prepare("UPDATE subscribers SET status = 'confirmed', confirm_token = NULL, confirmed_at = ? WHERE email = ?")
+        .run(confirmedAt, row.email);
+      return toSubscriber({ ...row, status: 'confirmed', confirm_token: null, confirmed_at: confirmedAt });
+    },
+
+    unsubscribe(token) {
+      const row = findByUnsubscribeToken.get(token);
+      if (!row) return undefined;
+
+      db.prepare('DELETE FROM subscribers WHERE email = ?').run(row.email);
+      return toSubscriber(row);
+    },
+
+    listConfirmed() {
+      return db
+        .prepare<[], SubscriberRow>("SELECT * FROM subscribers WHERE status = 'confirmed' ORDER BY confirmed_at")
+        .all()
+        .map(toSubscriber);
+    },
+
+    getLastDigest() {
+      const row = db
+        .prepare<[], { sent_at: number; post_keys: string }>('SELECT sent_at, post_keys FROM digests ORDER BY id DESC LIMIT 1')
+        .get();
+      return row && { sentAt: new Date(row.sent_at), postKeys: JSON.parse(row.post_keys) };
+    },
+
+    recordDigest(sentAt, postKeys, recipients) {
+      db.prepare('INSERT INTO digests (sent_at, post_keys, recipients) VALUES (?, ?, ?)')
+        .run(sentAt.getTime(), JSON.stringify(postKeys), recipients);
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import type { CollectionEntry } from 'astro:content';
+import type { Locale } from '../config/i18n';
+import { pickTranslations } from './i18n';
+
+type TranslatableEntry = CollectionEntry<'blog'> | CollectionEntry<'works'>;
+
+/**
+ * Get the key shared by all translations of an entry
+ * @param entry - Blog post or work
+ * @returns `translationKey` from the frontmatter, else the entry's own slug
+ */
+export function getTranslationKey(entry: TranslatableEntry): string {
+  return entry.data.translationKey ?? entry.slug;
+}
+
+/**
+ * Get the URL of an entry page, prefixed with the entry's own locale
+ * @param entry - Blog post or work
+ * @returns Path, e.g. '/de/blog/willkommen'
+ */
+export function getEntryPath(entry: TranslatableEntry): string {
+  return `/${entry.data.lang}/${entry.collection}/${entry.slug}`;
+}
+
+/**
+ * Get the other language versions of an entry
+ * @param entry - Blog post or work
+ * @param entries - Entries of the same collection
+ * @returns Translations, excluding the entry itself
+ */
+export function getTranslations<T extends TranslatableEntry>(entry: T, entries: T[]): T[] {
+  const key = getTranslationKey(entry);
+  return entries.filter((other) => other.slug !== entry.slug && getTranslationKey(other) === key);
+}
+
+/**
+ * Reduce a collection to one version per entry for a locale's listings
+ * @param entries - Entries in all languages
+ * @param locale - Locale of the listing page
+ * @returns The locale's version of each entry, else the default-locale (or only) version
+ */
+export function localizeEntries<T extends TranslatableEntry>(entries: T[], locale: Locale): T[] {
+  return pickTranslations(entries, locale, (entry) => ({
+    key: getTranslationKey(entry),
+    lang: entry.data.lang,
+  }));
+}